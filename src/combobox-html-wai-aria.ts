@@ -1,4 +1,5 @@
 import {
+  isItemBlockedBySelectionLimit,
   isItemSelected,
   isOpened,
   isSelectedItemHighlighted,
@@ -47,7 +48,7 @@ export const ariaInput = <T>(config: Config<T>, model: Model<T>) => {
     combobox: "off",
     spellcheck: "false",
     autocomplete: "off",
-    "aria-autocomplete": "list",
+    "aria-autocomplete": config.autocomplete,
     "aria-controls": itemListHtmlId(config),
     "aria-haspopup": "listbox",
     "aria-expanded": isOpened(model) ? "true" : "false",
@@ -75,17 +76,60 @@ export const ariaItemList = <T>(config: Config<T>, model: Model<T>) => {
   } as const;
 };
 
+/**
+ * The position of an item in the full list of filtered items.
+ * Needed when only a window of the items is rendered.
+ */
+export type AriaItemPosition = {
+  index: number;
+  setSize: number;
+};
+
 /**
  * @group WAI-ARIA
  * @description
  * This function returns WAI-ARIA attributes for the "option" <li />.
  */
-export const ariaItem = <T>(config: Config<T>, model: Model<T>, item: T) => {
+export const ariaItem = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T,
+  position?: AriaItemPosition
+) => {
   return {
     id: itemHtmlId(config, item),
     role: "option",
     "aria-selected": isItemSelected(config, model, item),
-    "aria-disabled": false,
+    "aria-disabled":
+      config.isItemDisabled(item) ||
+      isItemBlockedBySelectionLimit(config, model, item),
+    "aria-setsize": position?.setSize,
+    "aria-posinset": position ? position.index + 1 : undefined,
+  } as const;
+};
+
+/**
+ * @group WAI-ARIA
+ * @description
+ * This function returns WAI-ARIA attributes for the element that wraps the "option" <li /> of a group.
+ */
+export const ariaGroup = <T>(config: Config<T>, groupIndex: number) => {
+  return {
+    id: groupHtmlId(config, groupIndex),
+    role: "group",
+    "aria-labelledby": groupLabelHtmlId(config, groupIndex),
+  } as const;
+};
+
+/**
+ * @group WAI-ARIA
+ * @description
+ * This function returns WAI-ARIA attributes for the label of a group.
+ */
+export const ariaGroupLabel = <T>(config: Config<T>, groupIndex: number) => {
+  return {
+    id: groupLabelHtmlId(config, groupIndex),
+    role: "presentation",
   } as const;
 };
 
@@ -117,6 +161,20 @@ const itemHtmlId = <T>({ toItemId, namespace }: Config<T>, item: T) => {
   return `${namespace}-item-${toItemId(item)}`;
 };
 
+/**
+ * @group WAI-ARIA
+ */
+const groupHtmlId = <T>({ namespace }: Config<T>, groupIndex: number) => {
+  return `${namespace}-group-${groupIndex}`;
+};
+
+/**
+ * @group WAI-ARIA
+ */
+const groupLabelHtmlId = <T>({ namespace }: Config<T>, groupIndex: number) => {
+  return `${namespace}-group-${groupIndex}-label`;
+};
+
 /**
  * @group WAI-ARIA
  */
@@ -198,6 +256,8 @@ export const aria = <T>(config: Config<T>, model: Model<T>) => {
     helperText: ariaHelperText(config),
     itemList: ariaItemList(config, model),
     item: (item: T) => ariaItem(config, model, item),
+    group: (groupIndex: number) => ariaGroup(config, groupIndex),
+    groupLabel: (groupIndex: number) => ariaGroupLabel(config, groupIndex),
     selectedList: ariaSelectedList(config, model),
     selectedItem: (item: T) => ariaSelectedItem(config, model, item),
     unselectButton: (_item: T) => ariaUnselectButton(),
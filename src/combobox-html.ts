@@ -49,6 +49,14 @@ const handleEffect = <T>({
     case "focus-selected-item": {
       return;
     }
+    case "set-input-selection-range": {
+      const inputProps = toInputProps(config, model);
+      const inputElement = document.getElementById(inputProps.id);
+      if (inputElement instanceof HTMLInputElement) {
+        inputElement.setSelectionRange(effect.start, effect.end);
+      }
+      return;
+    }
     case "scroll-item-into-view": {
         const listboxProps = toListBoxProps(config);
         const listbox = document.getElementById(listboxProps.id);
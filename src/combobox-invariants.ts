@@ -0,0 +1,208 @@
+import {
+  toFilteredItemsMemoized,
+  update,
+  type Config,
+  type Input,
+  type Model,
+  type Msg,
+  type Output,
+  type Plugin,
+} from "./combobox";
+
+/** @module Invariants **/
+
+/**
+ * @group Invariants
+ */
+export type ModelInvariantViolation = {
+  invariant:
+    | "highlight-index-in-filtered-items"
+    | "focused-index-in-selected-items"
+    | "unique-item-ids"
+    | "selected-items-in-all-items"
+    | "single-selected-item";
+  message: string;
+};
+
+/**
+ * @group Invariants
+ *
+ * Thrown by `assertModelInvariants` and `updateChecked`.
+ */
+export class ModelInvariantError extends Error {
+  violations: ModelInvariantViolation[];
+
+  constructor(message: string, violations: ModelInvariantViolation[]) {
+    super(message);
+    this.name = "ModelInvariantError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * @group Invariants
+ *
+ * This function returns the invariants the model breaks. These are states the update function should never return.
+ */
+export const toModelInvariantViolations = <T>(
+  config: Config<T>,
+  model: Model<T>
+): ModelInvariantViolation[] => {
+  const violations: ModelInvariantViolation[] = [];
+
+  if (model.type === "focused-opened-highlighted") {
+    const filteredItemCount = toFilteredItemsMemoized(config)(model).length;
+    if (model.highlightIndex < 0 || model.highlightIndex >= filteredItemCount) {
+      violations.push({
+        invariant: "highlight-index-in-filtered-items",
+        message: `highlightIndex ${model.highlightIndex} is outside of the ${filteredItemCount} filtered items`,
+      });
+    }
+  }
+
+  if (model.type === "highlighted-selected") {
+    const selectedItemCount = model.selectedItems.length;
+    if (model.focusedIndex < 0 || model.focusedIndex >= selectedItemCount) {
+      violations.push({
+        invariant: "focused-index-in-selected-items",
+        message: `focusedIndex ${model.focusedIndex} is outside of the ${selectedItemCount} selected items`,
+      });
+    }
+  }
+
+  const allItemIds = new Set<string | number>();
+  for (const item of model.allItems) {
+    const itemId = config.toItemId(item);
+    if (allItemIds.has(itemId)) {
+      violations.push({
+        invariant: "unique-item-ids",
+        message: `allItems has more than one item with the id ${JSON.stringify(
+          itemId
+        )}`,
+      });
+    }
+    allItemIds.add(itemId);
+  }
+
+  if (!config.preserveSelected) {
+    for (const item of model.selectedItems) {
+      const itemId = config.toItemId(item);
+      if (!allItemIds.has(itemId)) {
+        violations.push({
+          invariant: "selected-items-in-all-items",
+          message: `selected item with the id ${JSON.stringify(
+            itemId
+          )} is not in allItems`,
+        });
+      }
+    }
+  }
+
+  if (
+    model.selectMode.type === "single-select" &&
+    model.selectedItems.length > 1
+  ) {
+    violations.push({
+      invariant: "single-selected-item",
+      message: `single-select has ${model.selectedItems.length} selected items`,
+    });
+  }
+
+  return violations;
+};
+
+/**
+ * @group Invariants
+ *
+ * This function throws a `ModelInvariantError` when the model breaks an invariant.
+ * Meant for development and tests.
+ */
+export const assertModelInvariants = <T>(
+  config: Config<T>,
+  model: Model<T>
+): void => {
+  const violations = toModelInvariantViolations(config, model);
+
+  if (violations.length > 0) {
+    throw new ModelInvariantError(toViolationMessage(violations), violations);
+  }
+};
+
+/**
+ * @group Invariants
+ *
+ * Same as `update` but checks the invariants of the model after every transition.
+ * Depending on `onViolation` it throws a `ModelInvariantError` or warns with `console.warn`.
+ * The message includes the msg that caused the violation and a diff of the model.
+ * Meant for development and tests.
+ */
+export const updateChecked = <T>(
+  config: Config<T>,
+  input: Input<T>,
+  plugins: Plugin<T>[] = [],
+  { onViolation = "throw" }: { onViolation?: "throw" | "warn" } = {}
+): Output<T> => {
+  const output = update(config, input, plugins);
+
+  const violations = toModelInvariantViolations(config, output.model);
+
+  if (violations.length === 0) {
+    return output;
+  }
+
+  const message = [
+    toViolationMessage(violations, input.msg),
+    "Model diff:",
+    ...toModelDiff(input.model, output.model),
+  ].join("\n");
+
+  if (onViolation === "warn") {
+    console.warn(message);
+    return output;
+  }
+
+  throw new ModelInvariantError(message, violations);
+};
+
+const toViolationMessage = <T>(
+  violations: ModelInvariantViolation[],
+  msg?: Msg<T>
+): string => {
+  return [
+    msg
+      ? `Combobox model invariants violated after msg ${stringify(msg)}`
+      : "Combobox model invariants violated",
+    ...violations.map(
+      (violation) => `  - ${violation.invariant}: ${violation.message}`
+    ),
+  ].join("\n");
+};
+
+/**
+ * Lists the fields of the model that changed. Long values are truncated.
+ */
+const toModelDiff = <T>(prev: Model<T>, next: Model<T>): string[] => {
+  const prevRecord: Record<string, unknown> = prev;
+  const nextRecord: Record<string, unknown> = next;
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const lines: string[] = [];
+
+  for (const key of keys) {
+    const prevValue = stringify(prevRecord[key]);
+    const nextValue = stringify(nextRecord[key]);
+    if (prevValue !== nextValue) {
+      lines.push(`  ${key}: ${prevValue} -> ${nextValue}`);
+    }
+  }
+
+  return lines.length > 0 ? lines : ["  (no changes)"];
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+const stringify = (value: unknown): string => {
+  const json = value === undefined ? "undefined" : JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH
+    ? `${json.slice(0, MAX_VALUE_LENGTH)}...`
+    : json;
+};
@@ -0,0 +1,269 @@
+import {
+  toCurrentInputValue,
+  toHighlightedIndex,
+  update,
+  type Config,
+  type Effect,
+  type Event,
+  type Input,
+  type InputMode,
+  type ItemStoreState,
+  type Model,
+  type ModelState,
+  type Msg,
+  type Output,
+  type Plugin,
+  type SelectionHistory,
+} from "./combobox";
+import {
+  deserializeModel,
+  serializeModel,
+  type SerializedModel,
+} from "./combobox-serialization";
+
+/** @module Recorder **/
+
+/**
+ * @group Recorder
+ *
+ * The state of the model after a step. Compared by `replay` to find where a replay diverges.
+ */
+export type TraceSnapshot = SerializedModel & {
+  type: Model<unknown>["type"];
+  highlightIndex: number;
+  inputValue: string;
+};
+
+/**
+ * @group Recorder
+ */
+export type TraceStep<T> = {
+  msg: Msg<T>;
+  effects: Effect<T>[];
+  events: Event<T>[];
+  snapshot: TraceSnapshot;
+};
+
+/**
+ * @group Recorder
+ *
+ * The state of the initial model that `SerializedModel` leaves out.
+ * Needed to replay from the middle of a session when old steps were dropped.
+ */
+export type TraceInitialState<T> = ModelState & {
+  inputMode: InputMode;
+  skipOnce: Msg<T>["type"][];
+  itemStoreState: ItemStoreState;
+  selectionHistory: SelectionHistory<T>;
+};
+
+/**
+ * @group Recorder
+ *
+ * A JSON safe recording of a combobox session. Items must be JSON safe for the trace to be.
+ * Attach it to bug reports and turn it into a regression test with `replay`.
+ */
+export type Trace<T> = {
+  version: 1;
+  allItems: T[];
+  initialModel: SerializedModel;
+  initialState?: TraceInitialState<T>;
+  steps: TraceStep<T>[];
+};
+
+/**
+ * @group Recorder
+ */
+export type Recorder<T> = {
+  /**
+   * Use this instead of `update`. It runs `update` and records the step.
+   */
+  update: (input: Input<T>) => Output<T>;
+  toTrace: () => Trace<T>;
+};
+
+const toTraceSnapshot = <T>(
+  config: Config<T>,
+  model: Model<T>
+): TraceSnapshot => {
+  return {
+    ...serializeModel(config, model),
+    type: model.type,
+    highlightIndex: toHighlightedIndex(model),
+    inputValue: toCurrentInputValue(config, model),
+  };
+};
+
+const toModelState = (model: ModelState): ModelState => {
+  switch (model.type) {
+    case "focused-opened-highlighted": {
+      return {
+        type: model.type,
+        highlightIndex: model.highlightIndex,
+        isKeyboardNavigation: model.isKeyboardNavigation,
+      };
+    }
+    case "highlighted-selected": {
+      return { type: model.type, focusedIndex: model.focusedIndex };
+    }
+    default: {
+      return { type: model.type };
+    }
+  }
+};
+
+const toTraceInitialState = <T>(model: Model<T>): TraceInitialState<T> => {
+  return {
+    ...toModelState(model),
+    inputMode: model.inputMode,
+    skipOnce: model.skipOnce,
+    itemStoreState: model.itemStoreState,
+    selectionHistory: model.selectionHistory,
+  };
+};
+
+/**
+ * @group Recorder
+ *
+ * This function returns a recorder that records every message and its effects and events.
+ * Only the last `maxSteps` steps are kept. The model before the oldest kept step becomes the initial model of the trace.
+ */
+export const initRecorder = <T>(
+  config: Config<T>,
+  {
+    model,
+    plugins = [],
+    maxSteps = Infinity,
+  }: {
+    model: Model<T>;
+    plugins?: Plugin<T>[];
+    maxSteps?: number;
+  }
+): Recorder<T> => {
+  let allItems = model.allItems;
+  let initialModel = serializeModel(config, model);
+  let initialState = toTraceInitialState(model);
+  const steps: TraceStep<T>[] = [];
+  const models: Model<T>[] = [];
+
+  return {
+    update: (input) => {
+      const output = update(config, input, plugins);
+
+      steps.push({
+        msg: input.msg,
+        effects: output.effects,
+        events: output.events,
+        snapshot: toTraceSnapshot(config, output.model),
+      });
+      models.push(input.model);
+
+      if (steps.length > maxSteps) {
+        steps.shift();
+        models.shift();
+        // the model before the oldest kept step becomes the initial model
+        const oldest = models[0] ?? output.model;
+        allItems = oldest.allItems;
+        initialModel = serializeModel(config, oldest);
+        initialState = toTraceInitialState(oldest);
+      }
+
+      return output;
+    },
+    toTrace: () => {
+      return {
+        version: 1,
+        allItems,
+        initialModel,
+        initialState,
+        steps: steps.slice(),
+      };
+    },
+  };
+};
+
+/**
+ * @group Recorder
+ */
+export type ReplayResult<T> =
+  | {
+      type: "matched";
+      model: Model<T>;
+    }
+  | {
+      type: "diverged";
+      /**
+       * The index of the first step whose model, effects or events differ from the trace.
+       */
+      stepIndex: number;
+      msg: Msg<T>;
+      expected: Omit<TraceStep<T>, "msg">;
+      actual: Omit<TraceStep<T>, "msg">;
+      model: Model<T>;
+    }
+  | {
+      type: "invalid-trace";
+    };
+
+/**
+ * @group Recorder
+ *
+ * This function runs the messages of a trace and reports the first step where the result differs from the recording.
+ * Pass the same plugins the trace was recorded with.
+ */
+export const replay = <T>(
+  config: Config<T>,
+  trace: Trace<T>,
+  plugins: Plugin<T>[] = []
+): ReplayResult<T> => {
+  const initialModel = deserializeModel(config, {
+    allItems: trace.allItems,
+    serialized: trace.initialModel,
+  });
+
+  if (!initialModel) {
+    return { type: "invalid-trace" };
+  }
+
+  // the serialized model is restored blurred so the rest of the state comes from the trace
+  let model: Model<T> = trace.initialState
+    ? { ...initialModel, ...trace.initialState }
+    : initialModel;
+
+  for (let stepIndex = 0; stepIndex < trace.steps.length; stepIndex++) {
+    const step = trace.steps[stepIndex];
+
+    if (!step) {
+      continue;
+    }
+
+    const output = update(config, { model, msg: step.msg }, plugins);
+
+    const actual = {
+      effects: output.effects,
+      events: output.events,
+      snapshot: toTraceSnapshot(config, output.model),
+    };
+
+    const expected = {
+      effects: step.effects,
+      events: step.events,
+      snapshot: step.snapshot,
+    };
+
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      return {
+        type: "diverged",
+        stepIndex,
+        msg: step.msg,
+        expected,
+        actual,
+        model: output.model,
+      };
+    }
+
+    model = output.model;
+  }
+
+  return { type: "matched", model };
+};
@@ -0,0 +1,293 @@
+import {
+  init,
+  update,
+  type Config,
+  type HighlightMode,
+  type InputMode,
+  type Model,
+  type SelectMode,
+  type UsageHistory,
+} from "./combobox";
+
+/** @module Serialization **/
+
+/**
+ * @group Serialization
+ *
+ * The version of `SerializedModel` this version of the library writes.
+ */
+export const serializedModelVersion = 1;
+
+/**
+ * @group Serialization
+ *
+ * The JSON safe form of `Model<T>` for persisting in localStorage or sending from server to client.
+ * Selected items are stored as ids. Transient state like `skipOnce` and the focused and opened states is not stored.
+ */
+export type SerializedModel = {
+  version: number;
+  selectedItemIds: (string | number)[];
+  selectMode: SelectMode;
+  inputMode: SerializedInputMode;
+  highlightMode: HighlightMode;
+  /**
+   * `null` means no limit since JSON has no `Infinity`.
+   */
+  filteredItemLimit: number | null;
+  pageSize: number;
+  disableCloseOnSelect: boolean;
+  usageHistory: UsageHistory;
+};
+
+export type SerializedInputMode =
+  | { type: "select-only" }
+  | { type: "search-mode"; inputValue: string }
+  | { type: "free-solo"; inputValue: string; committedValue?: string };
+
+/**
+ * @group Serialization
+ *
+ * A migration takes a serialized model of one version and returns it in the shape of the next version.
+ */
+export type ModelMigration = (serialized: Record<string, unknown>) => unknown;
+
+/**
+ * The migrations of the library keyed by the version they migrate from.
+ */
+const libraryMigrations: Record<number, ModelMigration> = {};
+
+/**
+ * @group Serialization
+ *
+ * This function returns the JSON safe form of the model.
+ */
+export const serializeModel = <T>(
+  config: Config<T>,
+  model: Model<T>
+): SerializedModel => {
+  return {
+    version: serializedModelVersion,
+    selectedItemIds: model.selectedItems.map(config.toItemId),
+    selectMode: model.selectMode,
+    inputMode: toSerializedInputMode(model.inputMode),
+    highlightMode: model.highlightMode,
+    filteredItemLimit: Number.isFinite(model.filteredItemLimit)
+      ? model.filteredItemLimit
+      : null,
+    pageSize: model.pageSize,
+    disableCloseOnSelect: model.disableCloseOnSelect ?? false,
+    usageHistory: model.usageHistory,
+  };
+};
+
+const toSerializedInputMode = (inputMode: InputMode): SerializedInputMode => {
+  switch (inputMode.type) {
+    case "select-only": {
+      return { type: "select-only" };
+    }
+    case "search-mode": {
+      return { type: "search-mode", inputValue: inputMode.inputValue };
+    }
+    case "free-solo": {
+      return inputMode.committedValue === undefined
+        ? { type: "free-solo", inputValue: inputMode.inputValue }
+        : {
+            type: "free-solo",
+            inputValue: inputMode.inputValue,
+            committedValue: inputMode.committedValue,
+          };
+    }
+  }
+};
+
+/**
+ * @group Serialization
+ *
+ * This function restores a model from the output of `serializeModel`.
+ * The model is always restored in the `blurred` state.
+ * Selected item ids that are not in `allItems` are dropped.
+ * Older versions are migrated with the library migrations and `migrations`, keyed by the version they migrate from.
+ * When both migrate a version the library migration runs first and `migrations` gets its result.
+ * Returns `null` when `serialized` is not a serialized model or can not be migrated to the current version.
+ */
+export const deserializeModel = <T>(
+  config: Config<T>,
+  {
+    allItems,
+    serialized,
+    migrations = {},
+  }: {
+    allItems: T[];
+    serialized: unknown;
+    migrations?: Record<number, ModelMigration>;
+  }
+): Model<T> | null => {
+  const migrated = migrate(serialized, migrations);
+
+  if (!migrated) {
+    return null;
+  }
+
+  const model = init(config, {
+    allItems,
+    selectMode: migrated.selectMode,
+    inputMode: migrated.inputMode,
+    highlightMode: migrated.highlightMode,
+    filteredItemLimit: migrated.filteredItemLimit ?? Infinity,
+    pageSize: migrated.pageSize,
+    disableCloseOnSelect: migrated.disableCloseOnSelect,
+    usageHistory: migrated.usageHistory,
+  });
+
+  const itemsById = new Map<string | number, T>();
+  for (const item of allItems) {
+    itemsById.set(config.toItemId(item), item);
+  }
+
+  const selectedItems: T[] = [];
+  for (const itemId of migrated.selectedItemIds) {
+    const item = itemsById.get(itemId);
+    if (item !== undefined) {
+      selectedItems.push(item);
+    }
+  }
+
+  return update(config, {
+    model,
+    msg: { type: "set-selected-items", selectedItems },
+  }).model;
+};
+
+const migrate = (
+  serialized: unknown,
+  migrations: Record<number, ModelMigration>
+): SerializedModel | null => {
+  let current = serialized;
+
+  while (isRecord(current) && typeof current.version === "number") {
+    if (current.version === serializedModelVersion) {
+      return isSerializedModel(current) ? current : null;
+    }
+
+    const versionMigrations = [
+      libraryMigrations[current.version],
+      migrations[current.version],
+    ].filter((migration): migration is ModelMigration => !!migration);
+
+    if (
+      current.version > serializedModelVersion ||
+      versionMigrations.length === 0
+    ) {
+      return null;
+    }
+
+    let migrated: unknown = current;
+
+    for (const migration of versionMigrations) {
+      if (!isRecord(migrated)) {
+        return null;
+      }
+      migrated = migration(migrated);
+    }
+
+    // a migration that does not move the version forward would loop forever
+    if (
+      !isRecord(migrated) ||
+      typeof migrated.version !== "number" ||
+      migrated.version <= current.version
+    ) {
+      return null;
+    }
+
+    current = migrated;
+  }
+
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const isSerializedModel = (
+  value: Record<string, unknown>
+): value is SerializedModel => {
+  return (
+    Array.isArray(value.selectedItemIds) &&
+    value.selectedItemIds.every(
+      (x) => typeof x === "string" || typeof x === "number"
+    ) &&
+    isSelectMode(value.selectMode) &&
+    isSerializedInputMode(value.inputMode) &&
+    isHighlightMode(value.highlightMode) &&
+    (value.filteredItemLimit === null ||
+      typeof value.filteredItemLimit === "number") &&
+    typeof value.pageSize === "number" &&
+    typeof value.disableCloseOnSelect === "boolean" &&
+    isRecord(value.usageHistory) &&
+    Array.isArray(value.usageHistory.entries)
+  );
+};
+
+const isOptional = (value: unknown, type: "string" | "number" | "boolean") => {
+  return value === undefined || typeof value === type;
+};
+
+const isSelectMode = (value: unknown): value is SelectMode => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  switch (value.type) {
+    case "single-select": {
+      return true;
+    }
+    case "multi-select": {
+      return (
+        (value.selectedItemListDirection === "left-to-right" ||
+          value.selectedItemListDirection === "right-to-left") &&
+        isOptional(
+          value.disableSelectedItemListKeyboardNavigation,
+          "boolean"
+        ) &&
+        isOptional(value.maxSelected, "number") &&
+        isOptional(value.minSelected, "number")
+      );
+    }
+    default: {
+      return false;
+    }
+  }
+};
+
+const isSerializedInputMode = (
+  value: unknown
+): value is SerializedInputMode => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  switch (value.type) {
+    case "select-only": {
+      return true;
+    }
+    case "search-mode": {
+      return typeof value.inputValue === "string";
+    }
+    case "free-solo": {
+      return (
+        typeof value.inputValue === "string" &&
+        isOptional(value.committedValue, "string")
+      );
+    }
+    default: {
+      return false;
+    }
+  }
+};
+
+const isHighlightMode = (value: unknown): value is HighlightMode => {
+  return (
+    isRecord(value) && (value.type === "circular" || value.type === "clamp")
+  );
+};
@@ -3,23 +3,32 @@
 //
 import {
   aria,
+  ariaGroup,
+  ariaGroupLabel,
   ariaItem,
   ariaSelectedItem,
   ariaUnselectButton,
+  type AriaItemPosition,
 } from "./combobox-html-wai-aria";
 import type { ItemStore } from "./item-store";
 
 import {
   LRUCache,
   isNonEmpty,
+  uniqueBy,
   type NonEmpty,
   circularIndex,
   clampIndex,
   findIndex,
+  groupBy,
+  initNormalizeText,
   intersectionLeft,
   keepIf,
   memoize,
   removeFirst,
+  toNormalizedText,
+  toOriginalRange,
+  type NormalizedText,
   yieldReverse,
   yieldUnique,
 } from "./utils";
@@ -43,15 +52,92 @@ export type Config<T> = {
    */
   deterministicFilter: (model: Model<T>) => Iterable<T>;
   deterministicFilterCacheKeyFn: (model: Model<T>) => string;
+  /**
+   * @description
+   * The toMatchRanges function returns the parts of the item's input value that matched the search value.
+   * Used to compute the `segments` of render items while the user is searching.
+   * Set this when using a custom `deterministicFilter` that matches differently than `simpleFilter`. For example fuzzy matching.
+   */
+  toMatchRanges: (model: Model<T>, item: T) => MatchRange[];
+  /**
+   * @description
+   * The normalizeText function is used by the built-in filters, type-ahead and inline completion to compare text.
+   * It's applied to each character separately so match ranges can be mapped back to the original text.
+   * See `TextNormalization`.
+   */
+  normalizeText: (text: string) => string;
+  /**
+   * @description
+   * When true the built-in `simpleFilter` splits the search value into terms that all have to match in any order.
+   * Quoted phrases match exactly and terms starting with `-` exclude items. See `toParsedQuery`.
+   */
+  isQuerySyntaxEnabled: boolean;
+  /**
+   * The normalized input values and keywords of `allItems`. Computed once per `allItems` array.
+   */
+  normalizedItemCache: WeakMap<T[], Map<T, NormalizedItem>>;
+  /**
+   * The results of `toCreatableItem`. Computed once per model.
+   */
+  creatableItemCache: WeakMap<Model<T>, T | null>;
   isEmptyItem: (value: T) => boolean;
+  /**
+   * @description
+   * Disabled items are skipped by keyboard navigation and can not be selected.
+   */
+  isItemDisabled: (item: T) => boolean;
+  /**
+   * @description
+   * When `toItemGroup` is set the filtered items are ordered so items of the same group are next to each other.
+   * Groups are ordered by the first item of each group in the filtered items.
+   */
+  toItemGroup?: (item: T) => string;
+  /**
+   * @description
+   * When `toCreatableItem` is set a new item is added to the end of the filtered items
+   * when the search value does not exactly match any item.
+   * Selecting the new item adds it to `allItems` and emits an `item-created` event.
+   * Return `null` to not offer a new item for the search value.
+   */
+  toCreatableItem?: (inputValue: string) => T | null;
+  /**
+   * @description
+   * Extra text the built-in filters match against. For example the alias "NYC" for "New York City".
+   * Render items report the keyword that matched in `matchedKeyword`.
+   */
+  toItemSearchKeywords?: (item: T) => string[];
   sortSelectedItems?: (a: T, b: T) => number;
+  /**
+   * @description
+   * How long in milliseconds the typed characters of type-ahead are remembered in select-only input mode.
+   */
+  typeaheadTimeout: number;
   namespace: string;
   filteredItemCache: Map<string, T[]>;
+  /**
+   * @description
+   * When `itemStore` is set the combobox emits `search-items` effects instead of filtering `allItems`.
+   * The results of the search replace `allItems`. See `searchItemStore`.
+   */
   itemStore?: ItemStore<T>;
+  itemStorePageSize: number;
   /**
    * When `preserveSelected` is set to true it will not unselect items that are not in the `allItems` list.
    */
   preserveSelected?: boolean;
+  /**
+   * @description
+   * When set to `both` the typed text is completed with the rest of the first matching item's input value.
+   * The completed part is text selected with the `set-input-selection-range` effect.
+   * Arrow right and end accept the completion. Backspace, escape, blur and selecting remove it.
+   */
+  autocomplete: "list" | "both";
+  /**
+   * @description
+   * When true the filtered items are ordered by the usage history and used items are shown in the "Recent" group when not searching.
+   * Use it with the `frecency` plugin. Defaults to false.
+   */
+  isFrecencyEnabled: boolean;
 };
 
 export const defaultDeterministicFilterCacheKeyFn = <T>(
@@ -59,7 +145,7 @@ export const defaultDeterministicFilterCacheKeyFn = <T>(
   model: Model<T>
 ): string => {
   const inputVal =
-    model.inputMode.type === "search-mode" ? model.inputMode.inputValue : "";
+    isSearchInputMode(model.inputMode) ? model.inputMode.inputValue : "";
   const selectedItemsHash = model.selectedItems.map(config.toItemId).join(" ");
   const key = `${model.inputMode.type} ${inputVal} ${model.allItemsHash} ${selectedItemsHash}`;
   return key;
@@ -71,20 +157,39 @@ export const defaultDeterministicFilterCacheKeyFn = <T>(
 export const initConfig = <T>({
   namespace,
   isEmptyItem = () => false,
+  isItemDisabled = () => false,
   sortSelectedItems,
   filteredItemCacheCapacity = 100,
   preserveSelected = false,
+  typeaheadTimeout = 500,
+  autocomplete = "list",
+  itemStorePageSize = 50,
+  textNormalization = {},
+  isQuerySyntaxEnabled = false,
+  isFrecencyEnabled = false,
   ...config
 }: {
   toItemId: (item: T) => string | number;
   toItemInputValue: (item: T) => string;
   isEmptyItem?: (item: T) => boolean;
+  isItemDisabled?: (item: T) => boolean;
+  toItemGroup?: (item: T) => string;
+  toCreatableItem?: (inputValue: string) => T | null;
+  toItemSearchKeywords?: (item: T) => string[];
   deterministicFilter?: (model: Model<T>) => Iterable<T>;
   deterministicFilterCacheKeyFn?: (model: Model<T>) => string;
+  toMatchRanges?: (model: Model<T>, item: T) => MatchRange[];
   sortSelectedItems?: (a: T, b: T) => number;
   namespace?: string;
   filteredItemCacheCapacity?: number;
   preserveSelected?: boolean;
+  typeaheadTimeout?: number;
+  autocomplete?: "list" | "both";
+  itemStore?: ItemStore<T>;
+  itemStorePageSize?: number;
+  textNormalization?: TextNormalization;
+  isQuerySyntaxEnabled?: boolean;
+  isFrecencyEnabled?: boolean;
 }): Config<T> => {
   const deterministicFilter: Config<T>["deterministicFilter"] =
     config.deterministicFilter
@@ -96,26 +201,136 @@ export const initConfig = <T>({
       ? config.deterministicFilterCacheKeyFn
       : (model) => defaultDeterministicFilterCacheKeyFn(config, model);
 
+  const toMatchRanges: Config<T>["toMatchRanges"] = config.toMatchRanges
+    ? config.toMatchRanges
+    : (model, item) => simpleMatchRanges(configFull, model, item);
+
   const configFull: Config<T> = {
     ...config,
     isEmptyItem,
+    isItemDisabled,
     filteredItemCache: new LRUCache(filteredItemCacheCapacity),
     namespace: namespace ?? "combobox",
     deterministicFilter,
     deterministicFilterCacheKeyFn: deterministicFilterCacheKeyFn,
+    toMatchRanges,
+    normalizeText: initNormalizeText({
+      stripDiacritics: textNormalization.stripDiacritics ?? true,
+      locale: textNormalization.locale,
+      foldWidth: textNormalization.foldWidth ?? false,
+    }),
+    normalizedItemCache: new WeakMap(),
+    creatableItemCache: new WeakMap(),
+    isQuerySyntaxEnabled,
     preserveSelected,
+    typeaheadTimeout,
+    autocomplete,
+    itemStorePageSize,
+    isFrecencyEnabled,
   };
 
   return configFull;
 };
 
+/**
+ * @group Config
+ *
+ * The options of the text normalization the built-in filters, type-ahead and inline completion use.
+ */
+export type TextNormalization = {
+  /**
+   * @description
+   * When true "creme" matches "Crème". Defaults to true.
+   */
+  stripDiacritics?: boolean;
+  /**
+   * @description
+   * The locale used for case folding. For example `tr` so "istanbul" matches "İstanbul".
+   * Defaults to locale insensitive case folding.
+   */
+  locale?: string | string[];
+  /**
+   * @description
+   * When true full-width characters match their normal width characters. Defaults to false.
+   */
+  foldWidth?: boolean;
+};
+
+/**
+ * @group Config
+ *
+ * This function returns the text normalized with `normalizeText`.
+ */
+export const normalizeText = <T>(config: Config<T>, text: string): string => {
+  return toNormalizedText(config.normalizeText, text).text;
+};
+
+type NormalizedItem = {
+  inputValue: NormalizedText;
+  keywords: string[];
+};
+
+const toNormalizedItem = <T>(config: Config<T>, item: T): NormalizedItem => {
+  return {
+    inputValue: toNormalizedText(
+      config.normalizeText,
+      config.toItemInputValue(item)
+    ),
+    keywords: config.toItemSearchKeywords
+      ? config.toItemSearchKeywords(item).map((keyword) =>
+          normalizeText(config, keyword)
+        )
+      : [],
+  };
+};
+
+const toNormalizedItems = <T>(
+  config: Config<T>,
+  model: Model<T>
+): Map<T, NormalizedItem> => {
+  const cached = config.normalizedItemCache.get(model.allItems);
+
+  if (cached) {
+    return cached;
+  }
+
+  const normalizedItems = new Map<T, NormalizedItem>();
+
+  for (const item of model.allItems) {
+    normalizedItems.set(item, toNormalizedItem(config, item));
+  }
+
+  config.normalizedItemCache.set(model.allItems, normalizedItems);
+
+  return normalizedItems;
+};
+
+const toNormalizedItemCached = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): NormalizedItem => {
+  return (
+    toNormalizedItems(config, model).get(item) ??
+    toNormalizedItem(config, item)
+  );
+};
+
+const toNormalizedInputValue = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): NormalizedText => {
+  return toNormalizedItemCached(config, model, item).inputValue;
+};
+
 /**
  * @group Config
  *
  * The simpleFilter function is a default implementation of the deterministicFilter function.
  */
 export const simpleFilter = function* <T>(config: Config<T>, model: Model<T>) {
-  const currentInputValue = toCurrentInputValue(config, model).toLowerCase();
+  const searchTerms = toSearchTerms(config, toTypedInputValue(config, model));
 
   for (let i = 0; i < model.allItems.length; i++) {
     const item = model.allItems[i];
@@ -124,12 +339,490 @@ export const simpleFilter = function* <T>(config: Config<T>, model: Model<T>) {
       continue;
     }
 
+    const normalizedItem = toNormalizedItemCached(config, model, item);
+
+    if (isItemMatched(normalizedItem, searchTerms)) {
+      yield item;
+    }
+  }
+};
+
+/**
+ * @group Config
+ *
+ * A term of a parsed search value.
+ * `phrase` terms come from quoted text and can contain spaces.
+ * Excluded terms were prefixed with `-` and remove the items they match.
+ */
+export type QueryTerm = {
+  type: "word" | "phrase";
+  value: string;
+  isExcluded: boolean;
+};
+
+export type ParsedQuery = {
+  terms: QueryTerm[];
+};
+
+/**
+ * @group Config
+ *
+ * This function splits a search value into terms.
+ * Unclosed quotes run to the end of the search value.
+ *
+ * @example
+ * parseQuery(`red "granny smith" -green`)
+ * // terms: red, granny smith, and the excluded green
+ */
+export const parseQuery = (searchValue: string): ParsedQuery => {
+  const terms: QueryTerm[] = [];
+
+  let index = 0;
+
+  while (index < searchValue.length) {
+    const char = searchValue[index];
+
+    if (char === undefined || /\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const isExcluded = char === "-";
+    const start = isExcluded ? index + 1 : index;
+
+    if (searchValue[start] === '"') {
+      const closingQuoteIndex = searchValue.indexOf('"', start + 1);
+      const end =
+        closingQuoteIndex === -1 ? searchValue.length : closingQuoteIndex;
+      const value = searchValue.slice(start + 1, end);
+      if (value.trim() !== "") {
+        terms.push({ type: "phrase", value, isExcluded });
+      }
+      index = end + 1;
+      continue;
+    }
+
+    let end = start;
+    while (end < searchValue.length && !/\s/.test(searchValue[end] ?? "")) {
+      end++;
+    }
+    const value = searchValue.slice(start, end);
+    if (value !== "") {
+      terms.push({ type: "word", value, isExcluded });
+    }
+    index = end;
+  }
+
+  return { terms };
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the terms of the search value when `isQuerySyntaxEnabled` is set.
+ * Returns no terms when `isQuerySyntaxEnabled` is not set.
+ */
+export const toParsedQuery = <T>(
+  config: Config<T>,
+  model: Model<T>
+): ParsedQuery => {
+  if (!config.isQuerySyntaxEnabled) {
+    return { terms: [] };
+  }
+  return parseQuery(toSearchValue(model));
+};
+
+type SearchTerms = { included: string[]; excluded: string[] };
+
+const toNormalizedTerms = <T>(
+  config: Config<T>,
+  searchValue: string
+): SearchTerms => {
+  const included: string[] = [];
+  const excluded: string[] = [];
+  for (const term of parseQuery(searchValue).terms) {
+    const value = normalizeText(config, term.value);
+    if (value === "") {
+      continue;
+    }
+    if (term.isExcluded) {
+      excluded.push(value);
+    } else {
+      included.push(value);
+    }
+  }
+  return { included, excluded };
+};
+
+/**
+ * The whole search value is one term when `isQuerySyntaxEnabled` is not set.
+ */
+const toSearchTerms = <T>(
+  config: Config<T>,
+  searchValue: string
+): SearchTerms => {
+  if (config.isQuerySyntaxEnabled) {
+    return toNormalizedTerms(config, searchValue);
+  }
+  return { included: [normalizeText(config, searchValue)], excluded: [] };
+};
+
+/**
+ * Every included term has to be in the input value or one of the keywords.
+ */
+const isItemMatched = (
+  normalizedItem: NormalizedItem,
+  searchTerms: SearchTerms
+): boolean => {
+  const texts = [normalizedItem.inputValue.text, ...normalizedItem.keywords];
+  const isInAnyText = (term: string) =>
+    texts.some((text) => text.includes(term));
+  return (
+    searchTerms.included.every(isInAnyText) &&
+    !searchTerms.excluded.some(isInAnyText)
+  );
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the search keyword that matched the search value when the input value did not.
+ * Returns `null` when the input value matched or `toItemSearchKeywords` is not set.
+ */
+export const toMatchedKeyword = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): string | null => {
+  if (!config.toItemSearchKeywords) {
+    return null;
+  }
+
+  const normalizedItem = toNormalizedItemCached(config, model, item);
+
+  const unmatchedTerms = toSearchTerms(
+    config,
+    toSearchValue(model)
+  ).included.filter(
+    (term) => term !== "" && !normalizedItem.inputValue.text.includes(term)
+  );
+
+  if (unmatchedTerms.length === 0) {
+    return null;
+  }
+
+  const keywordIndex = normalizedItem.keywords.findIndex((keyword) =>
+    unmatchedTerms.some((term) => keyword.includes(term))
+  );
+
+  return config.toItemSearchKeywords(item)[keywordIndex] ?? null;
+};
+
+/**
+ * @group Config
+ *
+ * A range of an item's input value that matched the search value.
+ * `start` is inclusive and `end` is exclusive.
+ */
+export type MatchRange = {
+  start: number;
+  end: number;
+};
+
+/**
+ * @group Config
+ *
+ * The simpleMatchRanges function is a default implementation of the toMatchRanges function.
+ * It returns the first case insensitive occurrence of the search value like `simpleFilter` matches.
+ */
+export const simpleMatchRanges = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): MatchRange[] => {
+  if (config.isQuerySyntaxEnabled) {
+    return queryMatchRanges(config, model, item);
+  }
+
+  const searchValue = normalizeText(config, toSearchValue(model));
+
+  if (searchValue.length === 0) {
+    return [];
+  }
+
+  const inputValue = toNormalizedInputValue(config, model, item);
+
+  const start = inputValue.text.indexOf(searchValue);
+
+  if (start === -1) {
+    return [];
+  }
+
+  return [
+    toOriginalRange(inputValue, { start, end: start + searchValue.length }),
+  ];
+};
+
+const queryMatchRanges = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): MatchRange[] => {
+  const { included } = toNormalizedTerms(config, toSearchValue(model));
+  const inputValue = toNormalizedInputValue(config, model, item);
+  const ranges: MatchRange[] = [];
+
+  for (const term of included) {
+    const start = inputValue.text.indexOf(term);
+    if (start !== -1) {
+      ranges.push(
+        toOriginalRange(inputValue, { start, end: start + term.length })
+      );
+    }
+  }
+
+  return ranges;
+};
+
+/**
+ * @group Config
+ *
+ * The tiers `rankedFilter` scores matches in. Ordered from best to worst.
+ */
+export const rankTiers = [
+  "exact",
+  "prefix",
+  "word-start",
+  "substring",
+  "acronym",
+  "fuzzy",
+] as const;
+
+export type RankTier = (typeof rankTiers)[number];
+
+export type RankedFilterOptions<T> = {
+  /**
+   * @description
+   * The searchable values of an item. Defaults to the item's input value.
+   * An item is ranked by the key that matches best.
+   */
+  keys?: ((item: T) => string)[];
+  /**
+   * @description
+   * The worst tier that still counts as a match. Defaults to `fuzzy`.
+   */
+  threshold?: RankTier;
+};
+
+type RankedMatch = {
+  tier: RankTier;
+  ranges: MatchRange[];
+};
+
+const isWordSeparator = (char: string | undefined): boolean => {
+  return char !== undefined && /[\s\-_]/.test(char);
+};
+
+const toWordStartIndexes = (text: string): number[] => {
+  const indexes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
     if (
-      config.toItemInputValue(item).toLowerCase().includes(currentInputValue)
+      !isWordSeparator(text[i]) &&
+      (i === 0 || isWordSeparator(text[i - 1]))
     ) {
-      yield item;
+      indexes.push(i);
+    }
+  }
+  return indexes;
+};
+
+const toFuzzyRanges = (query: string, text: string): MatchRange[] | null => {
+  const ranges: MatchRange[] = [];
+  let start = 0;
+  for (const char of query) {
+    const index = text.indexOf(char, start);
+    if (index === -1) {
+      return null;
+    }
+    ranges.push({ start: index, end: index + 1 });
+    start = index + 1;
+  }
+  return ranges;
+};
+
+/**
+ * Both the query and text are expected to be lower cased and the query to not be empty.
+ */
+const rankText = (query: string, text: string): RankedMatch | null => {
+  if (text === query) {
+    return { tier: "exact", ranges: [{ start: 0, end: text.length }] };
+  }
+
+  if (text.startsWith(query)) {
+    return { tier: "prefix", ranges: [{ start: 0, end: query.length }] };
+  }
+
+  const wordStartIndexes = toWordStartIndexes(text);
+
+  for (const index of wordStartIndexes) {
+    if (text.startsWith(query, index)) {
+      return {
+        tier: "word-start",
+        ranges: [{ start: index, end: index + query.length }],
+      };
     }
   }
+
+  const substringIndex = text.indexOf(query);
+
+  if (substringIndex !== -1) {
+    return {
+      tier: "substring",
+      ranges: [{ start: substringIndex, end: substringIndex + query.length }],
+    };
+  }
+
+  const acronym = wordStartIndexes.map((index) => text[index]).join("");
+  const acronymIndex = acronym.indexOf(query);
+
+  if (acronymIndex !== -1) {
+    return {
+      tier: "acronym",
+      ranges: wordStartIndexes
+        .slice(acronymIndex, acronymIndex + query.length)
+        .map((index) => ({ start: index, end: index + 1 })),
+    };
+  }
+
+  const fuzzyRanges = toFuzzyRanges(query, text);
+
+  if (fuzzyRanges) {
+    return { tier: "fuzzy", ranges: fuzzyRanges };
+  }
+
+  return null;
+};
+
+const rankItem = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T,
+  options: RankedFilterOptions<T>
+): RankedMatch | null => {
+  const query = normalizeText(config, toSearchValue(model));
+  const threshold = rankTiers.indexOf(options.threshold ?? "fuzzy");
+
+  const normalizedItem = toNormalizedItemCached(config, model, item);
+
+  const texts = [
+    ...(options.keys
+      ? options.keys.map((key) => normalizeText(config, key(item)))
+      : [normalizedItem.inputValue.text]),
+    ...normalizedItem.keywords,
+  ];
+
+  let best: RankedMatch | null = null;
+
+  for (const text of texts) {
+    const match = rankText(query, text);
+    if (
+      match &&
+      rankTiers.indexOf(match.tier) <= threshold &&
+      (!best || rankTiers.indexOf(match.tier) < rankTiers.indexOf(best.tier))
+    ) {
+      best = match;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * @group Config
+ *
+ * The rankedFilter function is an alternative to `simpleFilter` that sorts the items by how well they match.
+ * Matches are scored in the tiers of `rankTiers`.
+ * Items in the same tier keep the order of `allItems` so the result stays deterministic.
+ *
+ * @example
+ * const config = initConfig({
+ *   toItemId: (item) => item.id,
+ *   toItemInputValue: (item) => item.label,
+ *   deterministicFilter: (model) => rankedFilter(config, model),
+ *   toMatchRanges: (model, item) => rankedMatchRanges(config, model, item),
+ * });
+ */
+export const rankedFilter = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  options: RankedFilterOptions<T> = {}
+): T[] => {
+  if (toSearchValue(model).length === 0) {
+    return model.allItems;
+  }
+
+  const ranked: { item: T; tierIndex: number; index: number }[] = [];
+
+  for (let index = 0; index < model.allItems.length; index++) {
+    const item = model.allItems[index];
+
+    if (item === undefined) {
+      continue;
+    }
+
+    const match = rankItem(config, model, item, options);
+
+    if (match) {
+      ranked.push({ item, tierIndex: rankTiers.indexOf(match.tier), index });
+    }
+  }
+
+  ranked.sort((a, b) => a.tierIndex - b.tierIndex || a.index - b.index);
+
+  return ranked.map((x) => x.item);
+};
+
+/**
+ * @group Config
+ *
+ * This function returns the rank tier of an item for the current search value.
+ * Returns `null` when the item does not match.
+ */
+export const toRankTier = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T,
+  options: RankedFilterOptions<T> = {}
+): RankTier | null => {
+  return rankItem(config, model, item, options)?.tier ?? null;
+};
+
+/**
+ * @group Config
+ *
+ * The rankedMatchRanges function is the toMatchRanges function to use with `rankedFilter`.
+ * The ranges are computed on the item's input value.
+ */
+export const rankedMatchRanges = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): MatchRange[] => {
+  const query = normalizeText(config, toSearchValue(model));
+
+  if (query.length === 0) {
+    return [];
+  }
+
+  const inputValue = toNormalizedInputValue(config, model, item);
+
+  const match = rankText(query, inputValue.text);
+
+  if (!match) {
+    return [];
+  }
+
+  return match.ranges.map((range) => toOriginalRange(inputValue, range));
 };
 
 /** @module Model **/
@@ -156,13 +849,108 @@ export type Model<T> = ModelState & {
    * Good for performance.
    */
   filteredItemLimit: number;
+  /**
+   * @description
+   * The number of items the highlight moves when pressing the page up or page down key.
+   */
+  pageSize: number;
   /**
    * @description
    * When selecting an item from the drop down the combobox will not transition to a closed state.
    */
   disableCloseOnSelect?: boolean;
+  /**
+   * @description
+   * The state of the latest search of `Config<T>["itemStore"]`.
+   */
+  itemStoreState: ItemStoreState;
+  /**
+   * @description
+   * How often and how recently items were selected. Recorded by the `frecency` plugin.
+   * Items with usage are ordered first and shown in the "Recent" group when not searching and `isFrecencyEnabled` is set.
+   */
+  usageHistory: UsageHistory;
+  /**
+   * @description
+   * Snapshots of the selected items for undo and redo. Recorded by the `selectionHistory` plugin.
+   */
+  selectionHistory: SelectionHistory<T>;
+};
+
+/**
+ * @group Model
+ *
+ * The last snapshot of `past` is restored by `undo` and the last snapshot of `future` by `redo`.
+ */
+export type SelectionHistory<T> = {
+  past: T[][];
+  future: T[][];
+};
+
+/**
+ * @group Model
+ *
+ * The timestamps are passed in by the host so the history stays serializable and deterministic.
+ */
+export type UsageHistory = {
+  entries: UsageHistoryEntry[];
 };
 
+export type UsageHistoryEntry = {
+  itemId: string | number;
+  count: number;
+  lastUsedAt: number;
+};
+
+/**
+ * @group Model
+ *
+ * The `requestId` increases with every search so responses of older searches can be dropped.
+ * `itemCount` is the number of items at the start of `allItems` the item store returned.
+ * Selected items that are not in the results are kept in `allItems` after them.
+ */
+export type ItemStoreState =
+  | {
+      type: "idle";
+      requestId: number;
+    }
+  | {
+      type: "loading";
+      requestId: number;
+      searchQuery: string;
+      page: number;
+      itemCount: number;
+    }
+  | {
+      type: "loaded";
+      requestId: number;
+      searchQuery: string;
+      page: number;
+      total: number;
+      itemCount: number;
+      /**
+       * @description
+       * The error of the latest failed load more. The next `reached-end-of-list` retries the page.
+       */
+      error?: unknown;
+    }
+  | {
+      type: "loading-more";
+      requestId: number;
+      searchQuery: string;
+      page: number;
+      total: number;
+      itemCount: number;
+    }
+  | {
+      type: "errored";
+      requestId: number;
+      searchQuery: string;
+      page: number;
+      itemCount: number;
+      error: unknown;
+    };
+
 const toAllItemsHash = <T>(config: Config<T>, allItems: T[]): string => {
   let hash = "";
   for (const item of allItems) {
@@ -174,7 +962,7 @@ const toAllItemsHash = <T>(config: Config<T>, allItems: T[]): string => {
 /**
  * @group Model
  */
-type HighlightMode =
+export type HighlightMode =
   | {
       type: "circular";
     }
@@ -194,6 +982,16 @@ export type SelectMode =
       type: "multi-select";
       selectedItemListDirection: SelectedItemListDirection;
       disableSelectedItemListKeyboardNavigation?: boolean;
+      /**
+       * @description
+       * Items can not be selected once this many items are selected.
+       */
+      maxSelected?: number;
+      /**
+       * @description
+       * Items can not be unselected once only this many items are selected.
+       */
+      minSelected?: number;
     };
 
 export type SelectedItemListDirection = "left-to-right" | "right-to-left";
@@ -205,13 +1003,55 @@ export type SelectedItemListDirection = "left-to-right" | "right-to-left";
 export type InputMode =
   | {
       type: "select-only";
+      /**
+       * @description
+       * The characters typed for type-ahead. The id changes every time a character is typed.
+       */
+      typeahead?: Typeahead;
     }
   | {
       type: "search-mode";
       inputValue: string;
       hasSearched?: boolean;
+      inlineCompletion?: string;
+    }
+  /**
+   * @description
+   * Like `search-mode` but the typed text is a valid value.
+   * Blurring the input or pressing enter commits the typed text instead of reverting it.
+   */
+  | {
+      type: "free-solo";
+      inputValue: string;
+      hasSearched?: boolean;
+      committedValue?: string;
+      inlineCompletion?: string;
     };
 
+/**
+ * @group Model
+ */
+export type Typeahead = {
+  value: string;
+  id: number;
+};
+
+/**
+ * @group Model
+ *
+ * The input modes that have a text input the user can type into.
+ */
+export type SearchInputMode = Exclude<InputMode, { type: "select-only" }>;
+
+/**
+ * @group Model
+ */
+export const isSearchInputMode = (
+  inputMode: InputMode
+): inputMode is SearchInputMode => {
+  return inputMode.type === "search-mode" || inputMode.type === "free-solo";
+};
+
 type Blurred = {
   type: "blurred";
 };
@@ -235,7 +1075,12 @@ type HighlightedSelected = {
   focusedIndex: number;
 };
 
-type ModelState =
+/**
+ * @group Model
+ *
+ * The focus, open and highlight state of the model.
+ */
+export type ModelState =
   | Blurred
   | FocusedClosed
   | FocusedOpened
@@ -255,14 +1100,18 @@ export const init = <T>(
     inputMode,
     highlightMode,
     filteredItemLimit = Infinity,
+    pageSize = 10,
     disableCloseOnSelect = false,
+    usageHistory = { entries: [] },
   }: {
     allItems: T[];
     selectMode?: SelectMode;
     inputMode?: InputMode;
     highlightMode?: HighlightMode;
     filteredItemLimit?: number;
+    pageSize?: number;
     disableCloseOnSelect?: boolean;
+    usageHistory?: UsageHistory;
   }
 ): Model<T> => {
   return {
@@ -277,7 +1126,11 @@ export const init = <T>(
     selectMode: selectMode ? selectMode : { type: "single-select" },
     highlightMode: highlightMode ? highlightMode : { type: "clamp" },
     filteredItemLimit: Math.abs(filteredItemLimit),
+    pageSize: Math.max(1, Math.abs(pageSize)),
     disableCloseOnSelect,
+    itemStoreState: { type: "idle", requestId: 0 },
+    usageHistory,
+    selectionHistory: { past: [], future: [] },
   };
 };
 
@@ -297,6 +1150,10 @@ export type Msg<T> =
       type: "pressed-vertical-arrow-key";
       key: "arrow-up" | "arrow-down";
     }
+  | {
+      type: "pressed-jump-key";
+      key: JumpKey;
+    }
   | {
       type: "pressed-backspace-key";
     }
@@ -352,6 +1209,30 @@ export type Msg<T> =
   | {
       type: "pressed-clear-button";
     }
+  | {
+      type: "typeahead-timeout-elapsed";
+      id: number;
+    }
+  | {
+      type: "received-items";
+      requestId: number;
+      items: T[];
+      total: number;
+    }
+  | {
+      type: "failed-to-receive-items";
+      requestId: number;
+      error: unknown;
+    }
+  | {
+      type: "reached-end-of-list";
+    }
+  | {
+      type: "undo";
+    }
+  | {
+      type: "redo";
+    }
   //
   // Setters
   //
@@ -374,8 +1255,17 @@ export type Msg<T> =
   | {
       type: "set-mode";
       mode: SelectMode;
+    }
+  | {
+      type: "set-usage-history";
+      usageHistory: UsageHistory;
     };
 
+/**
+ * @group Update
+ */
+export type JumpKey = "home" | "end" | "page-up" | "page-down";
+
 /**
  * @group Update
  *
@@ -397,18 +1287,69 @@ export type Effect<T> =
     }
   | {
       type: "blur-input";
-    };
+    }
+  | {
+      type: "schedule-typeahead-timeout";
+      id: number;
+      timeout: number;
+    }
+  | {
+      type: "set-input-selection-range";
+      start: number;
+      end: number;
+    }
+  | SearchItemsEffect
+  | LoadMoreItemsEffect;
+
+/**
+ * @group Update
+ *
+ * Run the search with `searchItemStore` and dispatch the message it returns.
+ */
+export type SearchItemsEffect = {
+  type: "search-items";
+  requestId: number;
+  searchQuery: string;
+  page: number;
+  pageSize: number;
+};
+
+/**
+ * @group Update
+ *
+ * Same as `SearchItemsEffect` but the received items are appended to `allItems`.
+ */
+export type LoadMoreItemsEffect = {
+  type: "load-more-items";
+  requestId: number;
+  searchQuery: string;
+  page: number;
+  pageSize: number;
+};
 
 /**
  * @group Update
  *
  **/
-export type Event =
+export type Event<T = unknown> =
   | {
       type: "input-value-changed";
     }
   | {
       type: "selected-items-changed";
+    }
+  | {
+      type: "item-created";
+      item: T;
+    }
+  | {
+      type: "value-committed";
+    }
+  | {
+      type: "selection-limit-reached";
+    }
+  | {
+      type: "usage-history-changed";
     };
 
 /**
@@ -427,7 +1368,7 @@ export type Input<T> = {
 export type Output<T> = {
   model: Model<T>;
   effects: Effect<T>[];
-  events: Event[];
+  events: Event<T>[];
 };
 
 export const initOutput = <T>(model: Model<T>): Output<T> => {
@@ -529,7 +1470,12 @@ const updateClearButton =
         (model) => initOutput(clearInputValue(model)),
         (model) => {
           if (model.selectMode.type === "single-select") {
-            return initOutput({ ...model, selectedItems: [] });
+            // the focused selected item is gone once the selection is cleared
+            return initOutput(
+              model.type === "highlighted-selected"
+                ? { ...model, selectedItems: [], type: "focused-opened" }
+                : { ...model, selectedItems: [] }
+            );
           }
           return initOutput(model);
         }
@@ -539,6 +1485,237 @@ const updateClearButton =
     return initOutput(input.model);
   };
 
+const updateTypeaheadTimeout =
+  <T>(): Update<T> =>
+  (_config, input) => {
+    if (
+      input.msg.type === "typeahead-timeout-elapsed" &&
+      input.model.inputMode.type === "select-only" &&
+      input.model.inputMode.typeahead?.id === input.msg.id
+    ) {
+      return initOutput({
+        ...input.model,
+        inputMode: {
+          ...input.model.inputMode,
+          typeahead: { ...input.model.inputMode.typeahead, value: "" },
+        },
+      });
+    }
+
+    return initOutput(input.model);
+  };
+
+const updateItemStore =
+  <T>(): Update<T> =>
+  (config, input) => {
+    const { model, msg } = input;
+    const state = model.itemStoreState;
+
+    if (!config.itemStore) {
+      return initOutput(model);
+    }
+
+    if (
+      msg.type === "received-items" ||
+      msg.type === "failed-to-receive-items"
+    ) {
+      if (
+        (state.type !== "loading" && state.type !== "loading-more") ||
+        state.requestId !== msg.requestId
+      ) {
+        return initOutput(model);
+      }
+
+      // a failed page keeps the loaded items so the page can be loaded again
+      if (
+        msg.type === "failed-to-receive-items" &&
+        state.type === "loading-more"
+      ) {
+        return initOutput({
+          ...model,
+          itemStoreState: {
+            ...state,
+            type: "loaded",
+            page: state.page - 1,
+            error: msg.error,
+          },
+        });
+      }
+
+      if (msg.type === "failed-to-receive-items") {
+        return initOutput({
+          ...model,
+          itemStoreState: { ...state, type: "errored", error: msg.error },
+        });
+      }
+
+      const storeItems =
+        state.type === "loading-more"
+          ? uniqueBy(config.toItemId, [
+              ...model.allItems.slice(0, state.itemCount),
+              ...msg.items,
+            ])
+          : msg.items;
+
+      // selected items stay in allItems like they do for set-all-items
+      const allItemsNew = toNextAllItems(
+        config,
+        storeItems,
+        model.selectedItems
+      );
+
+      return initOutput(
+        clampIndexesToItems(config, {
+          ...model,
+          allItems: allItemsNew,
+          allItemsHash: toAllItemsHash(config, allItemsNew),
+          itemStoreState: {
+            type: "loaded",
+            requestId: state.requestId,
+            searchQuery: state.searchQuery,
+            page: state.page,
+            total: msg.total,
+            itemCount: storeItems.length,
+          },
+        })
+      );
+    }
+
+    const didReachEndOfList =
+      msg.type === "reached-end-of-list" ||
+      (msg.type === "pressed-vertical-arrow-key" &&
+        isHighlighted(model) &&
+        model.highlightIndex ===
+          toFilteredItemsMemoized(config)(model).length - 1);
+
+    if (
+      didReachEndOfList &&
+      state.type === "loaded" &&
+      hasMoreItems(config, model)
+    ) {
+      const requestId = state.requestId + 1;
+      const page = state.page + 1;
+      return {
+        model: {
+          ...model,
+          itemStoreState: {
+            type: "loading-more",
+            requestId,
+            searchQuery: state.searchQuery,
+            page,
+            total: state.total,
+            itemCount: state.itemCount,
+          },
+        },
+        effects: [
+          {
+            type: "load-more-items",
+            requestId,
+            searchQuery: state.searchQuery,
+            page,
+            pageSize: config.itemStorePageSize,
+          },
+        ],
+        events: [],
+      };
+    }
+
+    const searchQuery = toItemStoreSearchQuery(model);
+
+    // a failed search is retried when the user opens the list or types again
+    const isRetry =
+      state.type === "errored" &&
+      (msg.type === "pressed-input" ||
+        msg.type === "focused-input" ||
+        msg.type === "toggle-opened" ||
+        msg.type === "inputted-value");
+
+    if (
+      !isOpened(model) ||
+      (state.type !== "idle" && state.searchQuery === searchQuery && !isRetry)
+    ) {
+      return initOutput(model);
+    }
+
+    const requestId = state.requestId + 1;
+
+    return {
+      model: {
+        ...model,
+        itemStoreState: {
+          type: "loading",
+          requestId,
+          searchQuery,
+          page: 0,
+          itemCount: toItemStoreItemCount(model),
+        },
+      },
+      effects: [
+        {
+          type: "search-items",
+          requestId,
+          searchQuery,
+          page: 0,
+          pageSize: config.itemStorePageSize,
+        },
+      ],
+      events: [],
+    };
+  };
+
+const toItemStoreItemCount = <T>(model: Model<T>): number => {
+  return model.itemStoreState.type === "idle"
+    ? model.allItems.length
+    : model.itemStoreState.itemCount;
+};
+
+const toItemStoreHash = <T>(config: Config<T>, model: Model<T>): string => {
+  // the item store count limits the filtered items without changing allItems
+  return config.itemStore ? String(toItemStoreItemCount(model)) : "";
+};
+
+const toItemStoreSearchQuery = <T>(model: Model<T>): string => {
+  if (isSearchInputMode(model.inputMode) && model.inputMode.hasSearched) {
+    return model.inputMode.inputValue;
+  }
+  return "";
+};
+
+/**
+ * @group Update
+ *
+ * Runs the `search-items` or `load-more-items` effect with `Config<T>["itemStore"]` and returns the message to dispatch.
+ */
+export const searchItemStore = async <T>(
+  config: Config<T>,
+  effect: SearchItemsEffect | LoadMoreItemsEffect
+): Promise<Msg<T>> => {
+  try {
+    if (!config.itemStore) {
+      throw new Error("Config itemStore is not set");
+    }
+
+    const result = await config.itemStore.search({
+      searchQuery: effect.searchQuery,
+      page: effect.page,
+      pageSize: effect.pageSize,
+    });
+
+    return {
+      type: "received-items",
+      requestId: effect.requestId,
+      items: result.items,
+      total: result.total,
+    };
+  } catch (error) {
+    return {
+      type: "failed-to-receive-items",
+      requestId: effect.requestId,
+      error,
+    };
+  }
+};
+
 const updateMain =
   <T>(): Update<T> =>
   (config, input) => {
@@ -546,6 +1723,9 @@ const updateMain =
       { model: input.model, effects: [], events: [] },
       (model) => updateMainToBeRefactored(config, { model, msg: input.msg }),
       (model) => updateClearButton<T>()(config, { model, msg: input.msg }),
+      (model) =>
+        updateTypeaheadTimeout<T>()(config, { model, msg: input.msg }),
+      (model) => updateItemStore<T>()(config, { model, msg: input.msg }),
     );
   };
 
@@ -590,11 +1770,28 @@ const updateMainToBeRefactored = <T>(
    *
    */
 
-  output.model = updateSetters({
-    msg: input.msg,
-    model: updateModel(config, input),
-    config,
-  });
+  // arrow right and end accept the inline completion instead of navigating
+  const didAcceptInlineCompletion =
+    toInlineCompletion(input.model) !== "" &&
+    ((input.msg.type === "pressed-jump-key" && input.msg.key === "end") ||
+      (input.msg.type === "pressed-horizontal-arrow-key" &&
+        input.msg.key === "arrow-right"));
+
+  output.model = didAcceptInlineCompletion
+    ? acceptInlineCompletion(config, input.model)
+    : updateSetters({
+        msg: input.msg,
+        model: updateModel(config, input),
+        config,
+      });
+
+  // the items set by the host can leave the highlight or the focused selected item out of range
+  if (
+    input.msg.type === "set-all-items" ||
+    input.msg.type === "set-selected-items"
+  ) {
+    output.model = clampIndexesToItems(config, output.model);
+  }
 
   /**
    *
@@ -623,9 +1820,15 @@ const updateMainToBeRefactored = <T>(
   }
 
   // scroll highlighted item into view when navigating with keyboard
+  const didTypeahead =
+    input.msg.type === "pressed-key" &&
+    didTypeaheadChange(input.model, output.model);
   if (
     isHighlighted(output.model) &&
-    input.msg.type === "pressed-vertical-arrow-key"
+    !didAcceptInlineCompletion &&
+    (input.msg.type === "pressed-vertical-arrow-key" ||
+      input.msg.type === "pressed-jump-key" ||
+      didTypeahead)
   ) {
     const filtered = toFilteredItemsMemoized(config)(output.model);
 
@@ -667,6 +1870,39 @@ const updateMainToBeRefactored = <T>(
     });
   }
 
+  // complete the typed text inline and select the completed part
+  if (input.msg.type === "inputted-value") {
+    const completed = completeInputValue(config, input.model, output.model);
+    if (completed) {
+      output.model = completed;
+      output.effects.push({
+        type: "set-input-selection-range",
+        start: toSearchValue(completed).length,
+        end: toCurrentInputValue(config, completed).length,
+      });
+    }
+  } else if (
+    input.msg.type === "pressed-backspace-key" ||
+    input.msg.type === "pressed-escape-key" ||
+    input.msg.type === "blurred-input" ||
+    didSelectedItemsChange(config, input.model, output.model)
+  ) {
+    output.model = clearInlineCompletion(output.model);
+  }
+
+  // reset type-ahead after the host waits for the timeout
+  if (
+    didTypeahead &&
+    output.model.inputMode.type === "select-only" &&
+    output.model.inputMode.typeahead
+  ) {
+    output.effects.push({
+      type: "schedule-typeahead-timeout",
+      id: output.model.inputMode.typeahead.id,
+      timeout: config.typeaheadTimeout,
+    });
+  }
+
   // focus on input after clearing selectedItems
   if (input.msg.type === "pressed-unselect-all-button") {
     output.effects.push({
@@ -683,18 +1919,54 @@ const updateMainToBeRefactored = <T>(
    */
 
   if (
-    input.model.inputMode.type === "search-mode" &&
-    output.model.inputMode.type === "search-mode" &&
+    isSearchInputMode(input.model.inputMode) &&
+    isSearchInputMode(output.model.inputMode) &&
     input.model.inputMode.inputValue !== output.model.inputMode.inputValue
   ) {
     output.events.push({ type: "input-value-changed" });
   }
 
+  const pressedItem =
+    input.msg.type === "pressed-item"
+      ? input.msg.item
+      : input.msg.type === "pressed-enter-key"
+      ? toHighlightedItem(config, input.model)
+      : null;
+  if (
+    pressedItem &&
+    isOpened(input.model) &&
+    isItemBlockedBySelectionLimit(config, input.model, pressedItem) &&
+    !isItemSelected(config, output.model, pressedItem)
+  ) {
+    output.events.push({ type: "selection-limit-reached" });
+  }
+
+  // only selecting the creatable item creates it, set-all-items may contain an item with the same id
+  if (
+    pressedItem &&
+    isItemCreatable(config, input.model, pressedItem) &&
+    output.model.allItems.some(
+      (item) => config.toItemId(item) === config.toItemId(pressedItem)
+    )
+  ) {
+    output.events.push({ type: "item-created", item: pressedItem });
+  }
+
+  if (
+    toCommittedValue(config, input.model) !==
+    toCommittedValue(config, output.model)
+  ) {
+    output.events.push({ type: "value-committed" });
+  }
+
   if (didSelectedItemsChange(config, input.model, output.model)) {
     output.events.push({ type: "selected-items-changed" });
 
     // TODO move this somewhere else
-    if (toSelectedItems(config, output.model).length === 0) {
+    if (
+      toSelectedItems(config, output.model).length === 0 &&
+      output.model.inputMode.type !== "free-solo"
+    ) {
       output.model = clearInputValue(output.model);
     }
   }
@@ -719,6 +1991,40 @@ export const didSelectedItemsChange = <T>(
   );
 };
 
+/**
+ * Keeps the highlight in the filtered items and the focused selected item in the selected items after either list shrinks.
+ */
+const clampIndexesToItems = <T>(
+  config: Config<T>,
+  model: Model<T>
+): Model<T> => {
+  if (model.type === "focused-opened-highlighted") {
+    const filteredItemCount = toFilteredItemsMemoized(config)(model).length;
+
+    if (filteredItemCount === 0) {
+      return { ...model, type: "focused-opened" };
+    }
+
+    return {
+      ...model,
+      highlightIndex: clampIndex(model.highlightIndex, filteredItemCount),
+    };
+  }
+
+  if (model.type === "highlighted-selected") {
+    if (model.selectedItems.length === 0) {
+      return { ...model, type: "focused-closed" };
+    }
+
+    return {
+      ...model,
+      focusedIndex: clampIndex(model.focusedIndex, model.selectedItems.length),
+    };
+  }
+
+  return model;
+};
+
 const updateSetters = <T>({
   config,
   model,
@@ -782,11 +2088,11 @@ const updateSetters = <T>({
     }
 
     case "set-input-value": {
-      if (model.inputMode.type === "search-mode") {
+      if (isSearchInputMode(model.inputMode)) {
         return {
           ...model,
           inputMode: {
-            type: "search-mode",
+            ...model.inputMode,
             inputValue: msg.inputValue,
             hasSearched: false,
           },
@@ -811,6 +2117,13 @@ const updateSetters = <T>({
         selectMode: msg.mode,
       };
     }
+
+    case "set-usage-history": {
+      return {
+        ...model,
+        usageHistory: msg.usageHistory,
+      };
+    }
     default: {
       return model;
     }
@@ -893,7 +2206,7 @@ const updateModel = <T>(
         case "pressed-unselect-all-button": {
           return {
             ...model,
-            selectedItems: [],
+            selectedItems: keepMinSelected(model, []),
           };
         }
 
@@ -962,6 +2275,9 @@ const updateModel = <T>(
         }
 
         case "pressed-enter-key": {
+          if (model.inputMode.type === "free-solo") {
+            return commitInputValue(config, model);
+          }
           return resetInputValue({ config, model: closedToOpened(model) });
         }
 
@@ -975,7 +2291,11 @@ const updateModel = <T>(
           return {
             ...model,
             ...closedToOpened(model),
-            highlightIndex: selectedItemIndex ? selectedItemIndex : 0,
+            highlightIndex: toEnabledHighlightIndex(
+              config,
+              model,
+              selectedItemIndex ? selectedItemIndex : 0
+            ),
             type: "focused-opened-highlighted",
             isKeyboardNavigation: true,
           };
@@ -985,6 +2305,17 @@ const updateModel = <T>(
           return updateSelectedItemKeyboardNavigation({ config, model, msg });
         }
 
+        case "pressed-key": {
+          return updateTypeahead(config, model, msg.key);
+        }
+
+        case "pressed-jump-key": {
+          if (model.inputMode.type !== "select-only") {
+            return model;
+          }
+          return jumpHighlightIndex(config, closedToOpened(model), msg.key);
+        }
+
         case "pressed-unselect-button": {
           return removeSelectedItem({
             config,
@@ -1014,12 +2345,15 @@ const updateModel = <T>(
           }
 
           if (
-            model.inputMode.type === "search-mode" &&
+            isSearchInputMode(model.inputMode) &&
             model.inputMode.inputValue === ""
           ) {
             return {
               ...model,
-              selectedItems: toSelectedItems(config, model).slice(1),
+              selectedItems: keepMinSelected(
+                model,
+                toSelectedItems(config, model).slice(1)
+              ),
             };
           }
 
@@ -1029,7 +2363,10 @@ const updateModel = <T>(
           ) {
             return {
               ...model,
-              selectedItems: toSelectedItems(config, model).slice(1),
+              selectedItems: keepMinSelected(
+                model,
+                toSelectedItems(config, model).slice(1)
+              ),
             };
           }
 
@@ -1039,7 +2376,7 @@ const updateModel = <T>(
         case "pressed-unselect-all-button": {
           return {
             ...model,
-            selectedItems: [],
+            selectedItems: keepMinSelected(model, []),
             type: "focused-closed",
           };
         }
@@ -1079,6 +2416,10 @@ const updateModel = <T>(
         case "pressed-item": {
           const pressedItem = msg.item;
 
+          if (config.isItemDisabled(pressedItem)) {
+            return model;
+          }
+
           if (config.isEmptyItem(pressedItem)) {
             return {
               ...model,
@@ -1113,6 +2454,12 @@ const updateModel = <T>(
         }
 
         case "pressed-enter-key": {
+          if (model.inputMode.type === "free-solo") {
+            return commitInputValue(config, {
+              ...model,
+              type: "focused-closed",
+            });
+          }
           return resetInputValue({
             config,
             model: {
@@ -1130,7 +2477,7 @@ const updateModel = <T>(
           if (!selectedItemIndex) {
             return {
               ...model,
-              highlightIndex: 0,
+              highlightIndex: toEnabledHighlightIndex(config, model, 0),
               type: "focused-opened-highlighted",
               isKeyboardNavigation: true,
             };
@@ -1143,11 +2490,16 @@ const updateModel = <T>(
               ? 1
               : -1;
 
-          const highlightIndex = toNextHighlightIndex(
-            model.highlightMode,
-            selectedItemIndex + delta,
-            filtered.length
-          );
+          const highlightIndex =
+            delta === 0
+              ? toEnabledHighlightIndex(config, model, selectedItemIndex)
+              : toNextEnabledHighlightIndex(
+                  config,
+                  model,
+                  filtered,
+                  selectedItemIndex,
+                  delta
+                );
 
           return {
             ...model,
@@ -1164,8 +2516,16 @@ const updateModel = <T>(
           };
         }
 
-        case "pressed-horizontal-arrow-key": {
-          return updateSelectedItemKeyboardNavigation({ config, model, msg });
+        case "pressed-horizontal-arrow-key": {
+          return updateSelectedItemKeyboardNavigation({ config, model, msg });
+        }
+
+        case "pressed-key": {
+          return updateTypeahead(config, model, msg.key);
+        }
+
+        case "pressed-jump-key": {
+          return jumpHighlightIndex(config, model, msg.key);
         }
 
         case "pressed-unselect-button": {
@@ -1187,7 +2547,10 @@ const updateModel = <T>(
           if (toSearchValue(model) === "") {
             return {
               ...model,
-              selectedItems: toSelectedItems(config, model).slice(1),
+              selectedItems: keepMinSelected(
+                model,
+                toSelectedItems(config, model).slice(1)
+              ),
             };
           }
           return model;
@@ -1196,7 +2559,7 @@ const updateModel = <T>(
         case "pressed-unselect-all-button": {
           return {
             ...model,
-            selectedItems: [],
+            selectedItems: keepMinSelected(model, []),
             type: "focused-opened",
           };
         }
@@ -1231,6 +2594,10 @@ const updateModel = <T>(
         case "pressed-item": {
           const pressedItem = msg.item;
 
+          if (config.isItemDisabled(pressedItem)) {
+            return model;
+          }
+
           return toggleSelected({
             config,
             item: pressedItem,
@@ -1271,10 +2638,12 @@ const updateModel = <T>(
         case "pressed-vertical-arrow-key": {
           const filtered = toFilteredItemsMemoized(config)(model);
           const delta = msg.key === "arrow-down" ? 1 : -1;
-          const highlightIndex = toNextHighlightIndex(
-            model.highlightMode,
-            model.highlightIndex + delta,
-            filtered.length
+          const highlightIndex = toNextEnabledHighlightIndex(
+            config,
+            model,
+            filtered,
+            model.highlightIndex,
+            delta
           );
           return {
             ...model,
@@ -1287,13 +2656,28 @@ const updateModel = <T>(
           return updateSelectedItemKeyboardNavigation({ config, model, msg });
         }
 
+        case "pressed-key": {
+          return updateTypeahead(config, model, msg.key);
+        }
+
+        case "pressed-jump-key": {
+          return jumpHighlightIndex(config, model, msg.key);
+        }
+
         case "pressed-enter-key": {
           const filtered = toFilteredItemsMemoized(config)(model);
 
           const enteredItem = filtered[model.highlightIndex];
 
           if (!enteredItem) {
-            return { ...model, type: "focused-closed" };
+            return commitInputValue(config, {
+              ...model,
+              type: "focused-closed",
+            });
+          }
+
+          if (config.isItemDisabled(enteredItem)) {
+            return model;
           }
 
           return toggleSelected({
@@ -1311,10 +2695,13 @@ const updateModel = <T>(
         }
 
         case "pressed-unselect-button": {
-          const removed = Array.from(
-            keepIf(
-              (x) => toItemId(x) !== toItemId(msg.item),
-              yieldSelectedItems(config, model)
+          const removed = keepMinSelected(
+            model,
+            Array.from(
+              keepIf(
+                (x) => toItemId(x) !== toItemId(msg.item),
+                yieldSelectedItems(config, model)
+              )
             )
           );
 
@@ -1322,17 +2709,24 @@ const updateModel = <T>(
         }
 
         case "focused-selected-item": {
-          const selectedItemIndex = toSelectedItemIndex(config, model);
+          // the highlight index points into the filtered items, not the selected items
           return {
             ...model,
             type: "highlighted-selected",
-            focusedIndex: selectedItemIndex ?? 0,
+            focusedIndex:
+              findIndex(
+                (item) => toItemId(item) === toItemId(msg.item),
+                yieldSelectedItems(config, model)
+              ) ?? 0,
           };
         }
 
         case "pressed-backspace-key": {
           if (toSearchValue(model) === "") {
-            const removed = toSelectedItems(config, model).slice(1);
+            const removed = keepMinSelected(
+              model,
+              toSelectedItems(config, model).slice(1)
+            );
             if (isNonEmpty(removed)) {
               return { ...model, selectedItems: removed };
             }
@@ -1344,7 +2738,7 @@ const updateModel = <T>(
         case "pressed-unselect-all-button": {
           return {
             ...model,
-            selectedItems: [],
+            selectedItems: keepMinSelected(model, []),
             type: "focused-opened",
           };
         }
@@ -1425,7 +2819,11 @@ const updateModel = <T>(
             config,
             model: {
               ...model,
-              highlightIndex: selectedItemIndex ? selectedItemIndex : 0,
+              highlightIndex: toEnabledHighlightIndex(
+                config,
+                model,
+                selectedItemIndex ? selectedItemIndex : 0
+              ),
               type: "focused-opened-highlighted",
               isKeyboardNavigation: true,
             },
@@ -1446,7 +2844,7 @@ const updateModel = <T>(
             return setInputValue(
               {
                 ...model,
-                selectedItems: [],
+                selectedItems: keepMinSelected(model, []),
                 type: "focused-opened",
               },
               msg.inputValue
@@ -1469,10 +2867,13 @@ const updateModel = <T>(
         }
 
         case "pressed-backspace-key": {
-          const removedHighlightedIndex = Array.from(
-            keepIf(
-              (_, index) => index !== model.focusedIndex,
-              yieldSelectedItems(config, model)
+          const removedHighlightedIndex = keepMinSelected(
+            model,
+            Array.from(
+              keepIf(
+                (_, index) => index !== model.focusedIndex,
+                yieldSelectedItems(config, model)
+              )
             )
           );
 
@@ -1484,10 +2885,13 @@ const updateModel = <T>(
         }
 
         case "pressed-unselect-button": {
-          const removedOne = Array.from(
-            keepIf(
-              (x) => toItemId(x) !== toItemId(msg.item),
-              yieldSelectedItems(config, model)
+          const removedOne = keepMinSelected(
+            model,
+            Array.from(
+              keepIf(
+                (x) => toItemId(x) !== toItemId(msg.item),
+                yieldSelectedItems(config, model)
+              )
             )
           );
 
@@ -1538,7 +2942,7 @@ const updateModel = <T>(
         case "pressed-unselect-all-button": {
           return clearInputValue({
             ...model,
-            selectedItems: [],
+            selectedItems: keepMinSelected(model, []),
             type: "focused-opened",
           });
         }
@@ -1560,9 +2964,94 @@ const updateModel = <T>(
   }
 };
 
+/**
+ * Highlights the next item that starts with the typed characters in select-only input mode.
+ * Typing the same character repeatedly cycles through the items that start with that character.
+ */
+const updateTypeahead = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  key: string
+): Model<T> => {
+  if (model.inputMode.type !== "select-only") {
+    return model;
+  }
+
+  const typeahead = model.inputMode.typeahead ?? { value: "", id: 0 };
+
+  if (key.length !== 1 || (key.trim() === "" && typeahead.value === "")) {
+    return model;
+  }
+
+  const typeaheadNew: Typeahead = {
+    value: typeahead.value + key,
+    id: typeahead.id + 1,
+  };
+
+  const modelNew: Model<T> = {
+    ...model,
+    inputMode: { ...model.inputMode, typeahead: typeaheadNew },
+  };
+
+  const highlightIndex = toTypeaheadHighlightIndex(
+    config,
+    modelNew,
+    typeaheadNew.value
+  );
+
+  if (highlightIndex === null) {
+    return modelNew;
+  }
+
+  return {
+    ...modelNew,
+    type: "focused-opened-highlighted",
+    highlightIndex,
+    isKeyboardNavigation: true,
+  };
+};
+
+const toTypeaheadHighlightIndex = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  typeaheadValue: string
+): number | null => {
+  const filtered = toFilteredItemsMemoized(config)(model);
+  const value = normalizeText(config, typeaheadValue);
+  const isRepeatedChar = value.split("").every((char) => char === value[0]);
+  const search = isRepeatedChar ? value.slice(0, 1) : value;
+  const highlightIndex = isHighlighted(model) ? model.highlightIndex : -1;
+  const start = isRepeatedChar
+    ? highlightIndex + 1
+    : Math.max(0, highlightIndex);
+
+  for (let i = 0; i < filtered.length; i++) {
+    const index = circularIndex(start + i, filtered.length);
+    const item = filtered[index];
+
+    if (
+      item &&
+      !config.isItemDisabled(item) &&
+      toNormalizedInputValue(config, model, item).text.startsWith(search)
+    ) {
+      return index;
+    }
+  }
+
+  return null;
+};
+
+const didTypeaheadChange = <T>(prev: Model<T>, next: Model<T>): boolean => {
+  const prevId =
+    prev.inputMode.type === "select-only" ? prev.inputMode.typeahead?.id : null;
+  const nextId =
+    next.inputMode.type === "select-only" ? next.inputMode.typeahead?.id : null;
+  return prevId !== nextId;
+};
+
 const closedToOpened = <T>(model: Model<T>): Model<T> => {
   if (
-    model.inputMode.type === "search-mode" &&
+    isSearchInputMode(model.inputMode) &&
     model.selectMode.type === "single-select"
   ) {
     return setHasSearched(
@@ -1577,8 +3066,14 @@ const closedToOpened = <T>(model: Model<T>): Model<T> => {
 };
 
 const focusedToBlurred = <T>(config: Config<T>, model: Model<T>): Model<T> => {
+  if (model.inputMode.type === "free-solo") {
+    return setHasSearched(
+      commitInputValue(config, { ...model, type: "blurred" }),
+      false
+    );
+  }
   if (
-    model.inputMode.type === "search-mode" &&
+    isSearchInputMode(model.inputMode) &&
     model.selectMode.type === "single-select"
   ) {
     const modelNew = setHasSearched(
@@ -1594,9 +3089,38 @@ const focusedToBlurred = <T>(config: Config<T>, model: Model<T>): Model<T> => {
   return resetInputValue({ config, model: { ...model, type: "blurred" } });
 };
 
+/**
+ * In free-solo input mode the typed text becomes the committed value.
+ * In single select the selected item is unselected when the typed text does not match it.
+ */
+const commitInputValue = <T>(config: Config<T>, model: Model<T>): Model<T> => {
+  if (model.inputMode.type !== "free-solo") {
+    return model;
+  }
+
+  const inputValue =
+    model.inputMode.inputValue + (model.inputMode.inlineCompletion ?? "");
+  const selectedItem = toSelectedItem(config, model);
+  const selectedItems =
+    model.selectMode.type === "single-select" &&
+    selectedItem &&
+    config.toItemInputValue(selectedItem) !== inputValue
+      ? []
+      : model.selectedItems;
+
+  return {
+    ...model,
+    selectedItems,
+    inputMode: {
+      ...model.inputMode,
+      committedValue: inputValue,
+    },
+  };
+};
+
 const handlePressedInputWhenOpened = <T>(model: Model<T>): Model<T> => {
   if (
-    model.inputMode.type === "search-mode" &&
+    isSearchInputMode(model.inputMode) &&
     model.inputMode.inputValue === ""
   ) {
     return {
@@ -1635,9 +3159,20 @@ const toggleSelected = <T>({
     };
   }
 
-  const transitioned: Model<T> = model.disableCloseOnSelect
-    ? model
-    : { ...model, type: "focused-closed" };
+  if (
+    isSelectionLimitReached(model) &&
+    !isItemSelected(config, model, item)
+  ) {
+    return model;
+  }
+
+  const transitioned: Model<T> = addCreatedItem({
+    config,
+    item,
+    model: model.disableCloseOnSelect
+      ? model
+      : { ...model, type: "focused-closed" },
+  });
 
   if (
     isItemSelected(config, model, item) &&
@@ -1663,6 +3198,31 @@ const toggleSelected = <T>({
   });
 };
 
+/**
+ * Adds the item to all items if it is the creatable item.
+ */
+const addCreatedItem = <T>({
+  config,
+  model,
+  item,
+}: {
+  config: Config<T>;
+  model: Model<T>;
+  item: T;
+}): Model<T> => {
+  if (!isItemCreatable(config, model, item)) {
+    return model;
+  }
+
+  const allItemsNew = toNextAllItems(config, model.allItems, [item]);
+
+  return {
+    ...model,
+    allItems: allItemsNew,
+    allItemsHash: toAllItemsHash(config, allItemsNew),
+  };
+};
+
 const toSelectedItemIndex = <T>(
   config: Config<T>,
   model: Model<T>
@@ -1684,12 +3244,12 @@ const toSelectedItemIndex = <T>(
 };
 
 const setInputValue = <T>(model: Model<T>, inputValue: string): Model<T> => {
-  if (model.inputMode.type === "search-mode") {
+  if (isSearchInputMode(model.inputMode)) {
+    const { inlineCompletion: _, ...inputMode } = model.inputMode;
     return {
       ...model,
       inputMode: {
-        ...model.inputMode,
-        type: "search-mode",
+        ...inputMode,
         inputValue: inputValue,
       },
     };
@@ -1698,13 +3258,113 @@ const setInputValue = <T>(model: Model<T>, inputValue: string): Model<T> => {
   return model;
 };
 
+const clearInlineCompletion = <T>(model: Model<T>): Model<T> => {
+  if (
+    isSearchInputMode(model.inputMode) &&
+    model.inputMode.inlineCompletion !== undefined
+  ) {
+    return setInputValue(model, model.inputMode.inputValue);
+  }
+  return model;
+};
+
+/**
+ * The completed text becomes the typed text and the completed item stays highlighted.
+ */
+const acceptInlineCompletion = <T>(
+  config: Config<T>,
+  model: Model<T>
+): Model<T> => {
+  const highlightedItem = toHighlightedItem(config, model);
+  const accepted = setInputValue(model, toCurrentInputValue(config, model));
+
+  if (!highlightedItem || accepted.type !== "focused-opened-highlighted") {
+    return accepted;
+  }
+
+  const highlightIndex = toFilteredItemsMemoized(config)(accepted).findIndex(
+    (item) => config.toItemId(item) === config.toItemId(highlightedItem)
+  );
+
+  return highlightIndex === -1
+    ? clampIndexesToItems(config, accepted)
+    : { ...accepted, highlightIndex };
+};
+
+/**
+ * Completes the typed text with the rest of the first item that starts with it and highlights that item.
+ * Only completes when text was typed, so deleting the completed part does not complete it again.
+ */
+const completeInputValue = <T>(
+  config: Config<T>,
+  prev: Model<T>,
+  next: Model<T>
+): Model<T> | null => {
+  if (
+    config.autocomplete !== "both" ||
+    !isSearchInputMode(next.inputMode) ||
+    !isOpened(next)
+  ) {
+    return null;
+  }
+
+  const typed = next.inputMode.inputValue;
+
+  if (typed === "" || typed.length <= toSearchValue(prev).length) {
+    return null;
+  }
+
+  const typedNormalized = normalizeText(config, typed);
+
+  if (typedNormalized === "") {
+    return null;
+  }
+
+  const filtered = toFilteredItemsMemoized(config)(next);
+
+  for (let index = 0; index < filtered.length; index++) {
+    const item = filtered[index];
+
+    if (!item || config.isItemDisabled(item)) {
+      continue;
+    }
+
+    const itemInputValue = config.toItemInputValue(item);
+    const itemInputValueNormalized = toNormalizedInputValue(config, next, item);
+
+    if (!itemInputValueNormalized.text.startsWith(typedNormalized)) {
+      continue;
+    }
+
+    // the typed length can differ from the matched length. For example "creme" and "Crème"
+    const completionStart = toOriginalRange(itemInputValueNormalized, {
+      start: 0,
+      end: typedNormalized.length,
+    }).end;
+
+    if (completionStart < itemInputValue.length) {
+      return {
+        ...next,
+        type: "focused-opened-highlighted",
+        highlightIndex: index,
+        isKeyboardNavigation: true,
+        inputMode: {
+          ...next.inputMode,
+          inlineCompletion: itemInputValue.slice(completionStart),
+        },
+      };
+    }
+  }
+
+  return null;
+};
+
 const setHasSearched = <T>(model: Model<T>, hasSearched: boolean): Model<T> => {
-  if (model.inputMode.type === "search-mode") {
+  if (isSearchInputMode(model.inputMode)) {
     return {
       ...model,
       inputMode: {
         ...model.inputMode,
-        type: "search-mode",
         hasSearched: hasSearched,
       },
     };
@@ -1718,7 +3378,7 @@ export const clearInputValue = <T>(model: Model<T>): Model<T> => {
 };
 
 export const toSearchValue = <T>(model: Model<T>): string => {
-  return model.inputMode.type === "search-mode"
+  return isSearchInputMode(model.inputMode)
     ? model.inputMode.inputValue
     : "";
 };
@@ -1736,6 +3396,13 @@ const addSelected = <T>({
     return { ...model, selectedItems: [item] };
   }
 
+  if (
+    isSelectionLimitReached(model) &&
+    !isItemSelected(config, model, item)
+  ) {
+    return model;
+  }
+
   const selectedItemsNew = Array.from(
     yieldUnique(config.toItemId, [item, ...model.selectedItems])
   );
@@ -1759,10 +3426,13 @@ export const removeSelectedItem = <T>({
     return { ...model, selectedItems: [] };
   }
 
-  const removed = Array.from(
-    keepIf(
-      (x) => config.toItemId(x) !== config.toItemId(item),
-      yieldSelectedItems(config, model)
+  const removed = keepMinSelected(
+    model,
+    Array.from(
+      keepIf(
+        (x) => config.toItemId(x) !== config.toItemId(item),
+        yieldSelectedItems(config, model)
+      )
     )
   );
 
@@ -1772,6 +3442,21 @@ export const removeSelectedItem = <T>({
   };
 };
 
+/**
+ * Keeps the selected items unchanged when removing items would go below `minSelected`.
+ */
+const keepMinSelected = <T>(model: Model<T>, selectedItems: T[]): T[] => {
+  if (
+    model.selectMode.type === "multi-select" &&
+    model.selectMode.minSelected !== undefined &&
+    selectedItems.length < model.selectMode.minSelected &&
+    selectedItems.length < model.selectedItems.length
+  ) {
+    return model.selectedItems;
+  }
+  return selectedItems;
+};
+
 const updateSelectedItemKeyboardNavigation = <T>({
   model,
   msg,
@@ -1848,7 +3533,8 @@ const toInputValue = <T>({
     model.selectMode.type === "multi-select"
   ) {
     if (isHighlighted(model)) {
-      const highlightedItem = model.allItems[model.highlightIndex];
+      const highlightedItem =
+        toFilteredItemsMemoized(config)(model)[model.highlightIndex];
 
       if (!highlightedItem) {
         return "";
@@ -1872,7 +3558,8 @@ const toInputValue = <T>({
     const emptyItem = model.allItems.find((item) => config.isEmptyItem(item));
 
     if (isHighlighted(model)) {
-      const highlightedItem = model.allItems[model.highlightIndex];
+      const highlightedItem =
+        toFilteredItemsMemoized(config)(model)[model.highlightIndex];
 
       if (!highlightedItem) {
         return emptyItem ? config.toItemInputValue(emptyItem) : "";
@@ -1888,6 +3575,13 @@ const toInputValue = <T>({
     return config.toItemInputValue(selectedItem);
   }
 
+  if (
+    model.inputMode.type === "free-solo" &&
+    model.selectMode.type === "single-select"
+  ) {
+    return model.inputMode.committedValue ?? "";
+  }
+
   return "";
 };
 
@@ -1900,11 +3594,146 @@ export const toNextHighlightIndex = <T>(
     return circularIndex(highlightIndexNew, filteredItemLength);
   }
 
-  if (highlightMode.type === "clamp") {
-    return clampIndex(highlightIndexNew, filteredItemLength);
+  if (highlightMode.type === "clamp") {
+    return clampIndex(highlightIndexNew, filteredItemLength);
+  }
+
+  return highlightIndexNew;
+};
+
+/**
+ * Moves the highlight index by `delta` until it lands on an item that is not disabled.
+ * Returns the current highlight index when there is no enabled item to move to.
+ */
+export const toNextEnabledHighlightIndex = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  filtered: T[],
+  highlightIndex: number,
+  delta: 1 | -1
+): number => {
+  let index = highlightIndex;
+
+  for (let i = 0; i < filtered.length; i++) {
+    const indexNew = toNextHighlightIndex(
+      model.highlightMode,
+      index + delta,
+      filtered.length
+    );
+
+    if (indexNew === index) {
+      break;
+    }
+
+    index = indexNew;
+
+    const item = filtered[index];
+
+    if (item && !config.isItemDisabled(item)) {
+      return index;
+    }
+  }
+
+  return highlightIndex;
+};
+
+/**
+ * Moves the highlight to the first, last, previous page or next page item.
+ */
+const jumpHighlightIndex = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  key: JumpKey
+): Model<T> => {
+  const filtered = toFilteredItemsMemoized(config)(model);
+
+  if (filtered.length === 0) {
+    return model;
+  }
+
+  const highlightIndex = isHighlighted(model)
+    ? model.highlightIndex
+    : toSelectedItemIndex(config, model);
+
+  const clamped: Model<T> = { ...model, highlightMode: { type: "clamp" } };
+
+  const toEnabled = (index: number, delta: 1 | -1) => {
+    const item = filtered[index];
+    if (!item || !config.isItemDisabled(item)) {
+      return index;
+    }
+    const forward = toNextEnabledHighlightIndex(
+      config,
+      clamped,
+      filtered,
+      index,
+      delta
+    );
+    if (forward !== index) {
+      return forward;
+    }
+    return toNextEnabledHighlightIndex(
+      config,
+      clamped,
+      filtered,
+      index,
+      delta === 1 ? -1 : 1
+    );
+  };
+
+  const highlightIndexNew =
+    key === "home"
+      ? toEnabled(0, 1)
+      : key === "end"
+      ? toEnabled(filtered.length - 1, -1)
+      : key === "page-down"
+      ? toEnabled(
+          toNextHighlightIndex(
+            model.highlightMode,
+            (highlightIndex ?? -1) + model.pageSize,
+            filtered.length
+          ),
+          1
+        )
+      : toEnabled(
+          toNextHighlightIndex(
+            model.highlightMode,
+            (highlightIndex ?? filtered.length) - model.pageSize,
+            filtered.length
+          ),
+          -1
+        );
+
+  return {
+    ...model,
+    type: "focused-opened-highlighted",
+    highlightIndex: highlightIndexNew,
+    isKeyboardNavigation: true,
+  };
+};
+
+/**
+ * Returns the highlight index if its item is enabled otherwise the next enabled index after it.
+ */
+const toEnabledHighlightIndex = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  highlightIndex: number
+): number => {
+  const filtered = toFilteredItemsMemoized(config)(model);
+  const item = filtered[highlightIndex];
+
+  if (!item || !config.isItemDisabled(item)) {
+    return highlightIndex;
   }
 
-  return highlightIndexNew;
+  return toNextEnabledHighlightIndex(
+    config,
+    { ...model, highlightMode: { type: "clamp" } },
+    filtered,
+    highlightIndex,
+    1
+  );
 };
 
 /** @module Selectors **/
@@ -2011,6 +3840,13 @@ export const toCurrentInputValue = <T>(
   config: Config<T>,
   model: Model<T>
 ): string => {
+  return toTypedInputValue(config, model) + toInlineCompletion(model);
+};
+
+/**
+ * The value of the input element without the inline completion.
+ */
+const toTypedInputValue = <T>(config: Config<T>, model: Model<T>): string => {
   if (model.inputMode.type === "select-only") {
     return toInputValue({ config, model });
   }
@@ -2022,6 +3858,42 @@ export const toCurrentInputValue = <T>(
   return toSearchValue(model);
 };
 
+/**
+ * @group Selectors
+ *
+ * This function returns the inline completion that is appended to the typed text.
+ */
+export const toInlineCompletion = <T>(model: Model<T>): string => {
+  if (isSearchInputMode(model.inputMode) && model.type !== "blurred") {
+    return model.inputMode.inlineCompletion ?? "";
+  }
+  return "";
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the committed value in free-solo input mode.
+ * In single select a selected item's input value is the committed value.
+ * Returns null in the other input modes.
+ */
+export const toCommittedValue = <T>(
+  config: Config<T>,
+  model: Model<T>
+): string | null => {
+  if (model.inputMode.type !== "free-solo") {
+    return null;
+  }
+
+  const selectedItem = toSelectedItem(config, model);
+
+  if (selectedItem && model.selectMode.type === "single-select") {
+    return config.toItemInputValue(selectedItem);
+  }
+
+  return model.inputMode.committedValue ?? "";
+};
+
 /**
  * @group Selectors
  *
@@ -2047,6 +3919,56 @@ export const toHighlightedItem = <T>(
   return null;
 };
 
+/**
+ * @group Selectors
+ *
+ * Utility function to determine if the items of `Config<T>["itemStore"]` are loading.
+ */
+export const isLoadingItems = <T>(model: Model<T>): boolean => {
+  return model.itemStoreState.type === "loading";
+};
+
+/**
+ * @group Selectors
+ *
+ * Utility function to determine if the next page of `Config<T>["itemStore"]` is loading.
+ */
+export const isLoadingMoreItems = <T>(model: Model<T>): boolean => {
+  return model.itemStoreState.type === "loading-more";
+};
+
+/**
+ * @group Selectors
+ *
+ * Utility function to determine if `Config<T>["itemStore"]` has more pages of items to load.
+ */
+export const hasMoreItems = <T>(
+  config: Config<T>,
+  model: Model<T>
+): boolean => {
+  const state = model.itemStoreState;
+  return (
+    (state.type === "loaded" || state.type === "loading-more") &&
+    (state.page + 1) * config.itemStorePageSize < state.total
+  );
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the error of the latest failed search or load more of `Config<T>["itemStore"]`.
+ */
+export const toItemStoreError = <T>(model: Model<T>): unknown | null => {
+  const state = model.itemStoreState;
+  if (state.type === "errored") {
+    return state.error;
+  }
+  if (state.type === "loaded" && state.error !== undefined) {
+    return state.error;
+  }
+  return null;
+};
+
 export const toHighlightedIndex = <T>(model: Model<T>): number => {
   if (model.type !== "focused-opened-highlighted") {
     return -1;
@@ -2225,8 +4147,38 @@ export type ItemStatus =
   | "selected-and-highlighted"
   | "selected"
   | "highlighted"
+  | "disabled"
+  | "selection-limit-reached"
   | "unselected";
 
+/**
+ * @group Selectors
+ *
+ * Utility function to determine if `maxSelected` items are selected.
+ */
+export const isSelectionLimitReached = <T>(model: Model<T>): boolean => {
+  return (
+    model.selectMode.type === "multi-select" &&
+    model.selectMode.maxSelected !== undefined &&
+    model.selectedItems.length >= model.selectMode.maxSelected
+  );
+};
+
+/**
+ * @group Selectors
+ *
+ * Utility function to determine if an item can not be selected because `maxSelected` items are selected.
+ */
+export const isItemBlockedBySelectionLimit = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): boolean => {
+  return (
+    isSelectionLimitReached(model) && !isItemSelected(config, model, item)
+  );
+};
+
 export const isNavigatingWithKeyboard = <T>(model: Model<T>): boolean => {
   return (
     model.type === "focused-opened-highlighted" && model.isKeyboardNavigation
@@ -2239,6 +4191,8 @@ export type ItemStatusDetailed =
   | "highlighted-with-mouse"
   | "selected-and-highlighted-with-keyboard"
   | "selected-and-highlighted-with-mouse"
+  | "disabled"
+  | "selection-limit-reached"
   | "unselected";
 
 export const toItemStatusDetailed = <T>(
@@ -2246,6 +4200,14 @@ export const toItemStatusDetailed = <T>(
   model: Model<T>,
   item: T
 ): ItemStatusDetailed => {
+  if (config.isItemDisabled(item)) {
+    return "disabled";
+  }
+
+  if (isItemBlockedBySelectionLimit(config, model, item)) {
+    return "selection-limit-reached";
+  }
+
   const isSelected = isItemSelected(config, model, item);
 
   if (isSelected) {
@@ -2281,72 +4243,363 @@ export const toItemStatus = <T>(
   model: Model<T>,
   item: T
 ): ItemStatus => {
+  if (config.isItemDisabled(item)) {
+    return "disabled";
+  }
+
+  if (isItemBlockedBySelectionLimit(config, model, item)) {
+    return "selection-limit-reached";
+  }
+
   const isSelected = isItemSelected(config, model, item);
   const isHighlighted = isItemHighlighted(config, model, item);
 
-  if (isSelected && isHighlighted) {
-    return "selected-and-highlighted";
+  if (isSelected && isHighlighted) {
+    return "selected-and-highlighted";
+  }
+
+  if (isSelected) {
+    return "selected";
+  }
+
+  if (isHighlighted) {
+    return "highlighted";
+  }
+
+  return "unselected";
+};
+
+export const yieldFilteredItems = function* <T>(
+  config: Config<T>,
+  model: Model<T>
+): Generator<T> {
+  yield* yieldFilteredExistingItems(config, model);
+
+  const creatableItem = toCreatableItem(config, model);
+  if (creatableItem) {
+    yield creatableItem;
+  }
+};
+
+const yieldFilteredExistingItems = function* <T>(
+  config: Config<T>,
+  model: Model<T>
+): Generator<T> {
+  //
+  //
+  //
+
+  if (model.inputMode.type === "select-only" || config.itemStore) {
+    // selected items kept after the item store results are not results
+    const limit = config.itemStore
+      ? Math.min(model.filteredItemLimit, toItemStoreItemCount(model))
+      : model.filteredItemLimit;
+    let index = 0;
+    for (const item of model.allItems) {
+      if (index >= limit) {
+        break;
+      }
+      yield item;
+      index++;
+    }
+    return;
+  }
+
+  //
+  //
+  //
+
+  if (isSearchInputMode(model.inputMode) && !model.inputMode.hasSearched) {
+    let index = 0;
+    for (const item of model.allItems) {
+      if (index >= model.filteredItemLimit) {
+        break;
+      }
+      yield item;
+      index++;
+    }
+    return;
+  }
+
+  //
+  //
+  //
+
+  let index = 0;
+  for (const item of config.deterministicFilter(model)) {
+    if (index >= model.filteredItemLimit) {
+      break;
+    }
+    yield item;
+    index++;
+  }
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the item created by `toCreatableItem` for the current search value.
+ * Returns null when the search value is empty or exactly matches an existing item.
+ */
+export const toCreatableItem = <T>(
+  config: Config<T>,
+  model: Model<T>
+): T | null => {
+  const cached = config.creatableItemCache.get(model);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const creatableItem = toCreatableItemUncached(config, model);
+
+  config.creatableItemCache.set(model, creatableItem);
+
+  return creatableItem;
+};
+
+const toCreatableItemUncached = <T>(
+  config: Config<T>,
+  model: Model<T>
+): T | null => {
+  if (!config.toCreatableItem || !isSearchInputMode(model.inputMode)) {
+    return null;
+  }
+
+  const inputValue = model.inputMode.inputValue;
+  const inputValueNormalized = normalizeText(config, inputValue.trim());
+
+  if (inputValueNormalized === "") {
+    return null;
+  }
+
+  for (const item of model.allItems) {
+    if (
+      toNormalizedInputValue(config, model, item).text.trim() ===
+      inputValueNormalized
+    ) {
+      return null;
+    }
+  }
+
+  const creatableItem = config.toCreatableItem(inputValue);
+
+  if (!creatableItem) {
+    return null;
+  }
+
+  const creatableItemId = config.toItemId(creatableItem);
+
+  for (const item of model.allItems) {
+    if (config.toItemId(item) === creatableItemId) {
+      return null;
+    }
+  }
+
+  return creatableItem;
+};
+
+/**
+ * @group Selectors
+ *
+ * Utility function to determine if an item is the item created by `toCreatableItem`.
+ */
+export const isItemCreatable = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  item: T
+): boolean => {
+  const creatableItem = toCreatableItem(config, model);
+  return Boolean(
+    creatableItem && config.toItemId(creatableItem) === config.toItemId(item)
+  );
+};
+
+/**
+ * @group Selectors
+ *
+ * The label of the group recently used items are shown in when not searching.
+ */
+export const recentGroupLabel = "Recent";
+
+const DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * @group Selectors
+ *
+ * This function returns the frecency score of a usage history entry.
+ * The score is the usage count weighted by how long ago the entry was used compared to the latest entry.
+ * Comparing to the latest entry instead of the current time keeps the score deterministic.
+ */
+export const toFrecencyScore = (
+  usageHistory: UsageHistory,
+  entry: UsageHistoryEntry
+): number => {
+  const latest = usageHistory.entries.reduce(
+    (max, x) => Math.max(max, x.lastUsedAt),
+    -Infinity
+  );
+
+  const age = latest - entry.lastUsedAt;
+
+  const weight =
+    age < 4 * DAY
+      ? 100
+      : age < 14 * DAY
+      ? 70
+      : age < 31 * DAY
+      ? 50
+      : age < 90 * DAY
+      ? 30
+      : 10;
+
+  return entry.count * weight;
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the usage history. Persist it and pass it to `init` or the `set-usage-history` message.
+ */
+export const toUsageHistory = <T>(model: Model<T>): UsageHistory => {
+  return model.usageHistory;
+};
+
+/**
+ * @group Update
+ *
+ * This function adds one use of each item id to the usage history.
+ * When there are more than `maxEntries` entries the lowest scoring entries are dropped.
+ */
+export const recordUsage = (
+  usageHistory: UsageHistory,
+  itemIds: (string | number)[],
+  timestamp: number,
+  maxEntries: number = Infinity
+): UsageHistory => {
+  const entries = usageHistory.entries.slice();
+
+  for (const itemId of itemIds) {
+    const index = entries.findIndex((entry) => entry.itemId === itemId);
+    const entry = entries[index];
+    if (entry) {
+      entries[index] = {
+        itemId,
+        count: entry.count + 1,
+        lastUsedAt: timestamp,
+      };
+    } else {
+      entries.push({ itemId, count: 1, lastUsedAt: timestamp });
+    }
+  }
+
+  if (entries.length <= maxEntries) {
+    return { entries };
+  }
+
+  const recorded: UsageHistory = { entries };
+
+  const kept = new Set(
+    entries
+      .map((entry, index) => ({
+        index,
+        score: toFrecencyScore(recorded, entry),
+        lastUsedAt: entry.lastUsedAt,
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score || b.lastUsedAt - a.lastUsedAt || a.index - b.index
+      )
+      .slice(0, Math.max(0, maxEntries))
+      .map((x) => x.index)
+  );
+
+  return { entries: entries.filter((_, index) => kept.has(index)) };
+};
+
+/**
+ * Frecency only changes the filtered items when `isFrecencyEnabled` is set and an item has been used.
+ */
+const isFrecencyActive = <T>(config: Config<T>, model: Model<T>): boolean => {
+  return config.isFrecencyEnabled && model.usageHistory.entries.length > 0;
+};
+
+const toUsageHistoryHash = <T>(config: Config<T>, model: Model<T>): string => {
+  if (!isFrecencyActive(config, model)) {
+    return "";
   }
+  // every entry is part of the hash so different histories never share a cache key
+  return model.usageHistory.entries
+    .map((entry) =>
+      [JSON.stringify(entry.itemId), entry.count, entry.lastUsedAt].join(":")
+    )
+    .join(" ");
+};
 
-  if (isSelected) {
-    return "selected";
+const toFrecencyScores = <T>(model: Model<T>): Map<string | number, number> => {
+  const scores = new Map<string | number, number>();
+  for (const entry of model.usageHistory.entries) {
+    scores.set(entry.itemId, toFrecencyScore(model.usageHistory, entry));
   }
+  return scores;
+};
 
-  if (isHighlighted) {
-    return "highlighted";
+/**
+ * Items with the same score keep their filtered order.
+ */
+const sortByFrecency = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  items: T[]
+): T[] => {
+  if (!isFrecencyActive(config, model)) {
+    return items;
   }
 
-  return "unselected";
+  const scores = toFrecencyScores(model);
+
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: scores.get(config.toItemId(item)) ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((x) => x.item);
 };
 
-export const yieldFilteredItems = function* <T>(
+const isSearching = <T>(model: Model<T>): boolean => {
+  return (
+    isSearchInputMode(model.inputMode) &&
+    model.inputMode.hasSearched === true &&
+    model.inputMode.inputValue !== ""
+  );
+};
+
+/**
+ * When `isFrecencyEnabled` is set recently used items are put in the "Recent" group when not searching.
+ * Other items are grouped by `toItemGroup` or put in a group with an empty label.
+ */
+const toFilteredItemGroup = <T>(
   config: Config<T>,
   model: Model<T>
-): Generator<T> {
-  //
-  //
-  //
-
-  if (model.inputMode.type === "select-only") {
-    let index = 0;
-    for (const item of model.allItems) {
-      if (index >= model.filteredItemLimit) {
-        break;
-      }
-      yield item;
-      index++;
-    }
-    return;
-  }
-
-  //
-  //
-  //
+): ((item: T) => string) | null => {
+  const { toItemGroup } = config;
 
-  if (model.inputMode.type === "search-mode" && !model.inputMode.hasSearched) {
-    let index = 0;
-    for (const item of model.allItems) {
-      if (index >= model.filteredItemLimit) {
-        break;
-      }
-      yield item;
-      index++;
-    }
-    return;
+  if (!isFrecencyActive(config, model) || isSearching(model)) {
+    return toItemGroup ?? null;
   }
 
-  //
-  //
-  //
+  const usedItemIds = new Set(
+    model.usageHistory.entries.map((entry) => entry.itemId)
+  );
 
-  let index = 0;
-  for (const item of config.deterministicFilter(model)) {
-    if (index >= model.filteredItemLimit) {
-      break;
-    }
-    yield item;
-    index++;
-  }
+  return (item) =>
+    usedItemIds.has(config.toItemId(item))
+      ? recentGroupLabel
+      : toItemGroup
+      ? toItemGroup(item)
+      : "";
 };
 
 /**
@@ -2355,7 +4608,23 @@ export const yieldFilteredItems = function* <T>(
  * This function returns the all the filtered items.
  */
 export const toFilteredItems = <T>(config: Config<T>, model: Model<T>): T[] => {
-  return Array.from(yieldFilteredItems(config, model));
+  const filtered = sortByFrecency(
+    config,
+    model,
+    Array.from(yieldFilteredItems(config, model))
+  );
+
+  const toGroup = toFilteredItemGroup(config, model);
+
+  if (toGroup) {
+    const grouped: T[] = [];
+    for (const group of groupBy(toGroup, filtered).values()) {
+      grouped.push(...group);
+    }
+    return grouped;
+  }
+
+  return filtered;
 };
 
 /**
@@ -2365,7 +4634,11 @@ export const toFilteredItemsMemoized = <T>(config: Config<T>) => {
   return memoize(
     config.filteredItemCache,
     (model) => {
-      return config.deterministicFilterCacheKeyFn(model);
+      return [
+        config.deterministicFilterCacheKeyFn(model),
+        toItemStoreHash(config, model),
+        toUsageHistoryHash(config, model),
+      ].join(" ");
     },
     (model: Model<T>): T[] => {
       return toFilteredItems(config, model);
@@ -2376,18 +4649,93 @@ export const toFilteredItemsMemoized = <T>(config: Config<T>) => {
 /**
  * @group Selectors
  *
- * This function returns the all the filtered items with their status.
+ * A filtered item with its status.
  */
-type RenderItem<T> = {
+export type RenderItem<T> = {
   item: T;
+  /**
+   * The index of the item in the filtered items. This is the index `hovered-over-item` expects.
+   */
+  index: number;
   status: ItemStatus;
+  /**
+   * True when the item is the item created by `toCreatableItem`.
+   */
+  isCreatable: boolean;
   inputValue: string;
+  /**
+   * The search keyword that matched when the input value did not. See `toItemSearchKeywords`.
+   */
+  matchedKeyword: string | null;
+  /**
+   * The input value split into the parts that matched the search value and the parts that did not.
+   * Use this to bold the matching part of the item.
+   */
+  segments: Segment[];
   aria: ReturnType<typeof ariaItem>;
 };
-export const yieldRenderItemsMemoized = function* <T>(
-  config: Config<T>,
-  model: Model<T>
-): Generator<RenderItem<T>> {
+
+/**
+ * @group Selectors
+ *
+ * A part of an item's input value.
+ */
+export type Segment = {
+  text: string;
+  isMatch: boolean;
+};
+
+/**
+ * @group Selectors
+ *
+ * This function splits the text into segments using the match ranges.
+ * Overlapping or out of bounds ranges are merged and clamped.
+ */
+export const toSegments = (
+  text: string,
+  matchRanges: MatchRange[]
+): Segment[] => {
+  const sorted = matchRanges
+    .map((range) => ({
+      start: Math.max(0, Math.min(text.length, range.start)),
+      end: Math.max(0, Math.min(text.length, range.end)),
+    }))
+    .filter((range) => range.start < range.end)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: Segment[] = [];
+
+  let index = 0;
+
+  for (const range of sorted) {
+    const start = Math.max(index, range.start);
+
+    if (start >= range.end) {
+      continue;
+    }
+
+    if (index < start) {
+      segments.push({ text: text.slice(index, start), isMatch: false });
+    }
+
+    const previous = segments[segments.length - 1];
+    if (previous?.isMatch && index === start) {
+      previous.text += text.slice(start, range.end);
+    } else {
+      segments.push({ text: text.slice(start, range.end), isMatch: true });
+    }
+
+    index = range.end;
+  }
+
+  if (index < text.length) {
+    segments.push({ text: text.slice(index), isMatch: false });
+  }
+
+  return segments;
+};
+
+const initToRenderItem = <T>(config: Config<T>, model: Model<T>) => {
   const selectedItemIdSet = new Set<string | number>();
   for (const item of yieldSelectedItems(config, model)) {
     selectedItemIdSet.add(config.toItemId(item));
@@ -2396,25 +4744,67 @@ export const yieldRenderItemsMemoized = function* <T>(
   const highlightedIndex =
     model.type === "focused-opened-highlighted" ? model.highlightIndex : null;
 
-  let index = 0;
+  const creatableItem = toCreatableItem(config, model);
+  const creatableItemId = creatableItem ? config.toItemId(creatableItem) : null;
 
-  for (const item of toFilteredItemsMemoized(config)(model)) {
+  const isLimitReached = isSelectionLimitReached(model);
+
+  // the items are not filtered before the user types so nothing is a match
+  const isMatching = isSearching(model);
+
+  return (
+    item: T,
+    index: number,
+    position?: AriaItemPosition
+  ): RenderItem<T> => {
     const isSelected = selectedItemIdSet.has(config.toItemId(item));
     const isHighlighted = index === highlightedIndex;
 
-    yield {
+    const inputValue = config.toItemInputValue(item);
+
+    return {
       item,
-      status:
-        isSelected && isHighlighted
-          ? "selected-and-highlighted"
-          : isSelected
-          ? "selected"
-          : isHighlighted
-          ? "highlighted"
-          : "unselected",
-      inputValue: config.toItemInputValue(item),
-      aria: ariaItem(config, model, item),
+      index,
+      status: config.isItemDisabled(item)
+        ? "disabled"
+        : isLimitReached && !isSelected
+        ? "selection-limit-reached"
+        : isSelected && isHighlighted
+        ? "selected-and-highlighted"
+        : isSelected
+        ? "selected"
+        : isHighlighted
+        ? "highlighted"
+        : "unselected",
+      isCreatable: config.toItemId(item) === creatableItemId,
+      inputValue,
+      matchedKeyword: isMatching
+        ? toMatchedKeyword(config, model, item)
+        : null,
+      segments: toSegments(
+        inputValue,
+        isMatching ? config.toMatchRanges(model, item) : []
+      ),
+      aria: ariaItem(config, model, item, position),
     };
+  };
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the all the filtered items with their status.
+ */
+export const yieldRenderItemsMemoized = function* <T>(
+  config: Config<T>,
+  model: Model<T>
+): Generator<RenderItem<T>> {
+  const toRenderItem = initToRenderItem(config, model);
+
+  let index = 0;
+
+  for (const item of toFilteredItemsMemoized(config)(model)) {
+    yield toRenderItem(item, index);
     index++;
   }
 };
@@ -2428,33 +4818,12 @@ export const yieldRenderItems = function* <T>(
   config: Config<T>,
   model: Model<T>
 ): Generator<RenderItem<T>> {
-  const selectedItemIdSet = new Set<string | number>();
-  for (const item of yieldSelectedItems(config, model)) {
-    selectedItemIdSet.add(config.toItemId(item));
-  }
-
-  const highlightedIndex =
-    model.type === "focused-opened-highlighted" ? model.highlightIndex : null;
+  const toRenderItem = initToRenderItem(config, model);
 
   let index = 0;
 
   for (const item of toFilteredItems(config, model)) {
-    const isSelected = selectedItemIdSet.has(config.toItemId(item));
-    const isHighlighted = index === highlightedIndex;
-
-    yield {
-      item,
-      status:
-        isSelected && isHighlighted
-          ? "selected-and-highlighted"
-          : isSelected
-          ? "selected"
-          : isHighlighted
-          ? "highlighted"
-          : "unselected",
-      inputValue: config.toItemInputValue(item),
-      aria: ariaItem(config, model, item),
-    };
+    yield toRenderItem(item, index);
     index++;
   }
 };
@@ -2472,6 +4841,126 @@ export const toRenderItems = <T>(
 ): RenderItem<T>[] => {
   return Array.from(yieldRenderItems(config, model));
 };
+
+/**
+ * @group Selectors
+ *
+ * The visible range of render items returned by `toRenderWindow`.
+ */
+export type RenderWindow<T> = {
+  renderItems: RenderItem<T>[];
+  start: number;
+  end: number;
+  /**
+   * The count of all the filtered items. Use this to size the scroll container.
+   */
+  total: number;
+  /**
+   * The index of the highlighted item in the filtered items. -1 when nothing is highlighted.
+   * Use this to scroll the highlighted item into the window.
+   */
+  highlightedIndex: number;
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the render items for only the visible range of the filtered items.
+ * Use this instead of `toRenderItems` when virtualizing very large lists.
+ * `start` is inclusive and `end` is exclusive. Both get clamped to the filtered items.
+ */
+export const toRenderWindow = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  range: { start: number; end: number }
+): RenderWindow<T> => {
+  const filteredItems = toFilteredItemsMemoized(config)(model);
+  const total = filteredItems.length;
+  const start = clampRangeIndex(range.start, total);
+  const end = Math.max(start, clampRangeIndex(range.end, total));
+
+  const toRenderItem = initToRenderItem(config, model);
+
+  const renderItems: RenderItem<T>[] = [];
+
+  for (let index = start; index < end; index++) {
+    const item = filteredItems[index];
+    if (item === undefined) {
+      continue;
+    }
+    renderItems.push(toRenderItem(item, index, { index, setSize: total }));
+  }
+
+  return {
+    renderItems,
+    start,
+    end,
+    total,
+    highlightedIndex: toHighlightedIndex(model),
+  };
+};
+
+const clampRangeIndex = (index: number, total: number) => {
+  return Math.max(0, Math.min(total, Math.floor(index)));
+};
+
+/**
+ * @group Selectors
+ *
+ * A group of render items returned by `toRenderGroups`.
+ */
+export type RenderGroup<T> = {
+  label: string;
+  renderItems: RenderItem<T>[];
+  aria: ReturnType<typeof ariaGroup>;
+  ariaLabel: ReturnType<typeof ariaGroupLabel>;
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns the render items grouped by `toItemGroup`.
+ * When `isFrecencyEnabled` is set used items are in the "Recent" group when not searching.
+ * Returns an empty list when there is nothing to group by.
+ */
+export const toRenderGroups = <T>(
+  config: Config<T>,
+  model: Model<T>
+): RenderGroup<T>[] => {
+  return groupRenderItems(config, model, toRenderItemsMemozied(config, model));
+};
+
+const groupRenderItems = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  renderItems: RenderItem<T>[]
+): RenderGroup<T>[] => {
+  const toItemGroup = toFilteredItemGroup(config, model);
+
+  if (!toItemGroup) {
+    return [];
+  }
+
+  const renderItemsByGroup = groupBy(
+    (renderItem) => toItemGroup(renderItem.item),
+    renderItems
+  );
+
+  const renderGroups: RenderGroup<T>[] = [];
+
+  for (const [label, renderItems] of renderItemsByGroup) {
+    const groupIndex = renderGroups.length;
+    renderGroups.push({
+      label,
+      renderItems,
+      aria: ariaGroup(config, groupIndex),
+      ariaLabel: ariaGroupLabel(config, groupIndex),
+    });
+  }
+
+  return renderGroups;
+};
+
 /**
  * @group Selectors
  *
@@ -2513,14 +5002,41 @@ export const toRenderSelectedItems = <T>(
  * This helper function converts a keyboard event key property to a message.
  **/
 export const keyToMsg = <T>(
-  key: string
+  key: string,
+  /**
+   * When passed the home and end keys only prevent default when the dropdown is opened.
+   * So the text caret can still move when the dropdown is closed.
+   * The backspace key prevents default when there is an inline completion.
+   * The undo and redo keys only prevent default when there is something to undo or redo.
+   */
+  model?: Model<T>,
+  /**
+   * The modifier keys of the keyboard event. Needed to map Ctrl/Cmd+Z to undo and Shift+Ctrl/Cmd+Z to redo.
+   */
+  modifiers?: { ctrlKey?: boolean; metaKey?: boolean; shiftKey?: boolean }
 ): Msg<T> & { shouldPreventDefault?: boolean } => {
   const eq = (a: string, b: string) =>
     a.toLowerCase().trim() === b.toLowerCase().trim();
 
+  if (eq(key, "z") && (modifiers?.ctrlKey || modifiers?.metaKey)) {
+    const type = modifiers.shiftKey ? "redo" : "undo";
+    return {
+      type,
+      shouldPreventDefault: model
+        ? type === "undo"
+          ? canUndo(model)
+          : canRedo(model)
+        : false,
+    };
+  }
+
   if (eq(key, "Backspace")) {
     return {
       type: "pressed-backspace-key",
+      // removing the inline completion must not remove typed characters
+      ...(model && toInlineCompletion(model) !== ""
+        ? { shouldPreventDefault: true }
+        : {}),
     };
   }
 
@@ -2554,6 +5070,26 @@ export const keyToMsg = <T>(
     };
   }
 
+  const jumpKey: JumpKey | null = eq(key, "Home")
+    ? "home"
+    : eq(key, "End")
+    ? "end"
+    : eq(key, "PageUp")
+    ? "page-up"
+    : eq(key, "PageDown")
+    ? "page-down"
+    : null;
+
+  if (jumpKey) {
+    return {
+      type: "pressed-jump-key",
+      key: jumpKey,
+      shouldPreventDefault: model
+        ? isOpened(model) || model.inputMode.type === "select-only"
+        : jumpKey === "page-up" || jumpKey === "page-down",
+    };
+  }
+
   if (eq(key, "Escape")) {
     return { type: "pressed-escape-key" };
   }
@@ -2565,6 +5101,24 @@ export const keyToMsg = <T>(
   return { type: "pressed-key", key };
 };
 
+/**
+ * @group Selectors
+ *
+ * This function returns true when there is a selection to go back to with the `undo` message.
+ */
+export const canUndo = <T>(model: Model<T>): boolean => {
+  return model.selectionHistory.past.length > 0;
+};
+
+/**
+ * @group Selectors
+ *
+ * This function returns true when there is an undone selection to restore with the `redo` message.
+ */
+export const canRedo = <T>(model: Model<T>): boolean => {
+  return model.selectionHistory.future.length > 0;
+};
+
 export const toSelectedItemDirection = <T>(
   model: Model<T>
 ): SelectedItemListDirection | null => {
@@ -2580,15 +5134,22 @@ export const toSelectedItemDirection = <T>(
  * This function returns an object of all the returns of all the selectors.
  */
 export const toState = <T>(config: Config<T>, model: Model<T>) => {
+  const renderItems = toRenderItemsMemozied(config, model);
   return {
     aria: aria(config, model),
     allItems: model.allItems,
 
-    renderItems: toRenderItemsMemozied(config, model),
+    renderItems,
+    renderGroups: groupRenderItems(config, model, renderItems),
     renderSelectedItems: toRenderSelectedItems(config, model),
     isOpened: isOpened(model),
     selectedItems: toSelectedItems(config, model),
     inputValue: toCurrentInputValue(config, model),
+    committedValue: toCommittedValue(config, model),
+    isLoadingItems: isLoadingItems(model),
+    isLoadingMoreItems: isLoadingMoreItems(model),
+    hasMoreItems: hasMoreItems(config, model),
+    itemStoreError: toItemStoreError(model),
     isBlurred: isBlurred(model),
     isFocused: isFocused(model),
     selectedItem: toSelectedItem(config, model),
@@ -2598,7 +5159,9 @@ export const toState = <T>(config: Config<T>, model: Model<T>) => {
     isItemSelected: (item: T) => isItemSelected<T>(config, model, item),
     isItemIndexHighlighted: (index: number) =>
       isItemIndexHighlighted<T>(model, index),
+    creatableItem: toCreatableItem(config, model),
     itemStatus: (item: T) => toItemStatus(config, model, item),
+    isItemDisabled: (item: T) => config.isItemDisabled(item),
     isSelectedItemFocused: (selectedItem: T) =>
       isSelectedItemFocused(config, model, selectedItem),
   } as const;
@@ -2614,6 +5177,10 @@ export const handleEffects = <T>(
     focusInput: () => void;
     focusSelectedItem: (selectedIem: T) => void;
     blurInput?: () => void;
+    scheduleTypeaheadTimeout?: (id: number, timeout: number) => void;
+    setInputSelectionRange?: (start: number, end: number) => void;
+    searchItems?: (effect: SearchItemsEffect) => void;
+    loadMoreItems?: (effect: LoadMoreItemsEffect) => void;
   }
 ) => {
   for (let i = 0; i < effects.length; i++) {
@@ -2636,6 +5203,22 @@ export const handleEffects = <T>(
           handlers.blurInput?.();
           break;
         }
+        case "schedule-typeahead-timeout": {
+          handlers.scheduleTypeaheadTimeout?.(effect.id, effect.timeout);
+          break;
+        }
+        case "set-input-selection-range": {
+          handlers.setInputSelectionRange?.(effect.start, effect.end);
+          break;
+        }
+        case "search-items": {
+          handlers.searchItems?.(effect);
+          break;
+        }
+        case "load-more-items": {
+          handlers.loadMoreItems?.(effect);
+          break;
+        }
         default: {
           const check: never = effect;
           return check;
@@ -2646,10 +5229,14 @@ export const handleEffects = <T>(
 };
 
 export const handleEvents = <T>(
-  { events }: { events: Event[] },
+  { events }: { events: Event<T>[] },
   handlers: {
     onInputValueChanged?: () => void;
     onSelectedItemsChanged?: () => void;
+    onItemCreated?: (item: T) => void;
+    onValueCommitted?: () => void;
+    onSelectionLimitReached?: () => void;
+    onUsageHistoryChanged?: () => void;
   }
 ) => {
   for (const event of events) {
@@ -2664,6 +5251,26 @@ export const handleEvents = <T>(
         break;
       }
 
+      case "item-created": {
+        handlers.onItemCreated?.(event.item);
+        break;
+      }
+
+      case "value-committed": {
+        handlers.onValueCommitted?.();
+        break;
+      }
+
+      case "selection-limit-reached": {
+        handlers.onSelectionLimitReached?.();
+        break;
+      }
+
+      case "usage-history-changed": {
+        handlers.onUsageHistoryChanged?.();
+        break;
+      }
+
       default: {
         const check: never = event;
         return check;
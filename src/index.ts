@@ -1,5 +1,9 @@
 export * from "./combobox";
 export * from "./utils/non-empty";
 export * from "./combobox-html-wai-aria";
+export * from "./combobox-serialization";
+export * from "./combobox-recorder";
+export * from "./combobox-invariants";
 export * as Plugins from "./plugins";
-export * as Html from "./combobox-html";
\ No newline at end of file
+export * as Html from "./combobox-html";
+export * from "./item-store";
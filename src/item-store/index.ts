@@ -1 +1,2 @@
 export * from "./item-store";
+export * from "./item-store-in-memory";
@@ -1,35 +1,93 @@
+import type { TextNormalization } from "../combobox";
+import { initNormalizeText, toNormalizedText } from "../utils";
 import type { ItemStore as ItemStore } from "./item-store";
 
+/**
+ * @description
+ * An in memory implementation of ItemStore. Useful as a reference for implementing custom stores.
+ *
+ * Items are stored in insertion order. Inserting an item with an id that is already stored replaces
+ * the stored item and keeps its position.
+ *
+ * `search` is a substring search on `toItemInputValue` that normalizes text like the built-in filters.
+ * Pass the same `textNormalization` as the config so store results match the filtered items.
+ * Search results are always in insertion order. An empty search query matches all items.
+ */
 export const initItemStore = <T>({
   toItemId,
+  toItemInputValue,
+  textNormalization = {},
 }: {
   toItemId: (item: T) => string | number;
+  toItemInputValue: (item: T) => string;
+  textNormalization?: TextNormalization;
 }): ItemStore<T> => {
-  const itemsById = new Map<string | number, T>();
-  const indexById = new Map<string | number, number>();
-  const idByIndex = new Map<string | number, number>();
+  const items: T[] = [];
+  const indexById = new Map<string, number>();
+
+  const toKey = (item: T) => String(toItemId(item));
+
+  const normalize = initNormalizeText({
+    stripDiacritics: textNormalization.stripDiacritics ?? true,
+    locale: textNormalization.locale,
+    foldWidth: textNormalization.foldWidth ?? false,
+  });
+
+  const normalizeText = (text: string) =>
+    toNormalizedText(normalize, text).text;
+
   return {
     async insert(input) {
       for (const item of input.items) {
-        itemsById.set(toItemId(item), item);
+        const key = toKey(item);
+        const index = indexById.get(key);
+        if (index === undefined) {
+          indexById.set(key, items.length);
+          items.push(item);
+        } else {
+          items[index] = item;
+        }
       }
       return;
     },
 
     async getById(input) {
-      return undefined;
+      const index = indexById.get(input.id);
+      if (index === undefined) {
+        return undefined;
+      }
+      return items[index];
     },
 
     async getIndex(input) {
-      return 0;
+      return indexById.get(input.id);
     },
 
     async search(input) {
+      const searchQuery = normalizeText(input.searchQuery);
+      const pageSize = Math.max(0, input.pageSize);
+      const pageIndex = Math.max(0, input.page);
+      const start = pageIndex * pageSize;
+      const end = start + pageSize;
+
+      const page: T[] = [];
+      let total = 0;
+
+      for (const item of items) {
+        if (!normalizeText(toItemInputValue(item)).includes(searchQuery)) {
+          continue;
+        }
+        if (total >= start && total < end) {
+          page.push(item);
+        }
+        total++;
+      }
+
       return {
-        items: [],
-        total: 0,
-        pageIndex: 0,
-        pageSize: 0,
+        items: page,
+        total,
+        pageIndex,
+        pageSize,
       };
     },
   };
@@ -2,6 +2,10 @@ export type ItemStore<T> = {
   insert: (input: { items: T[] }) => Promise<void>;
   getById: (input: { id: string }) => Promise<T | null | undefined>;
   getIndex: (input: { id: string }) => Promise<number | null | undefined>;
+  /**
+   * @description
+   * `page` is zero based. `total` is the number of items that match the search query across all pages.
+   */
   search: (input: {
     searchQuery: string;
     pageSize: number;
@@ -2,4 +2,6 @@ export * from "./plugin-multi-select";
 export * from "./plugin-reset-search";
 export * from "./plugin-single-select";
 export * from "./plugin-toggle-select";
-export * from "./plugin-preserve-selected-items";
\ No newline at end of file
+export * from "./plugin-preserve-selected-items";
+export * from "./plugin-frecency";
+export * from "./plugin-selection-history";
\ No newline at end of file
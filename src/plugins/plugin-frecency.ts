@@ -0,0 +1,51 @@
+import { recordUsage } from "../combobox";
+import type { Plugin } from "../combobox";
+
+/**
+ * This plugin records the selected items in the usage history of the model.
+ * Items picked recently or often are ordered first and shown in the "Recent" group when not searching.
+ * Set `isFrecencyEnabled` in the config to use the ordering and the group.
+ * `now` returns the timestamp of a selection. Use `toUsageHistory` to persist the history.
+ * `now` is called inside `update`, so `replay` only reproduces the usage history of a trace when `now` returns the same timestamps as when it was recorded.
+ */
+export const frecency =
+  <T>({
+    now,
+    maxEntries = 100,
+  }: {
+    now: () => number;
+    maxEntries?: number;
+  }): Plugin<T> =>
+  ({ config, initialModel, output }) => {
+    if (
+      !output.events.some((event) => event.type === "selected-items-changed")
+    ) {
+      return output;
+    }
+
+    const previousItemIds = new Set(
+      initialModel.selectedItems.map(config.toItemId)
+    );
+
+    const addedItemIds = output.model.selectedItems
+      .map(config.toItemId)
+      .filter((itemId) => !previousItemIds.has(itemId));
+
+    if (addedItemIds.length === 0) {
+      return output;
+    }
+
+    return {
+      ...output,
+      events: [...output.events, { type: "usage-history-changed" }],
+      model: {
+        ...output.model,
+        usageHistory: recordUsage(
+          output.model.usageHistory,
+          addedItemIds,
+          now(),
+          maxEntries
+        ),
+      },
+    };
+  };
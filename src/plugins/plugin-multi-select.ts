@@ -7,9 +7,13 @@ export const muliSelect =
   <T>({
     selectedItemListDirection = "left-to-right",
     disableSelectedItemListKeyboardNavigation = false,
+    maxSelected,
+    minSelected,
   }: {
     selectedItemListDirection?: SelectedItemListDirection;
     disableSelectedItemListKeyboardNavigation?: boolean;
+    maxSelected?: number;
+    minSelected?: number;
   } = {}): Plugin<T> =>
   ({ output }) => {
     return {
@@ -20,6 +24,8 @@ export const muliSelect =
           type: "multi-select",
           selectedItemListDirection,
           disableSelectedItemListKeyboardNavigation,
+          maxSelected,
+          minSelected,
         },
       },
     };
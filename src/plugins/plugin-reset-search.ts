@@ -1,5 +1,5 @@
 import type { Plugin } from "../combobox";
-import { isClosed, isOpened } from "../combobox";
+import { isClosed, isOpened, isSearchInputMode } from "../combobox";
 
 /**
  * This plugin resets the search when the dropdown is toggled.
@@ -11,7 +11,7 @@ export const resetSearchOnDropdownToggle =
     if (
       isOpened(initialModel) &&
       isClosed(output.model) &&
-      output.model.inputMode.type === "search-mode"
+      isSearchInputMode(output.model.inputMode)
     ) {
       return {
         ...output,
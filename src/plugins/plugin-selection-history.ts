@@ -0,0 +1,59 @@
+import { didSelectedItemsChange, update } from "../combobox";
+import type { Plugin } from "../combobox";
+
+/**
+ * This plugin records the selected items before every selection change so the `undo` and `redo` messages can restore them.
+ * Only selection changes are recorded. Input value edits are not.
+ * The oldest snapshots are dropped when there are more than `maxDepth`.
+ */
+export const selectionHistory =
+  <T>({ maxDepth = 50 }: { maxDepth?: number } = {}): Plugin<T> =>
+  ({ config, initialModel, input, output }) => {
+    const { past, future } = initialModel.selectionHistory;
+
+    if (input.msg.type === "undo" || input.msg.type === "redo") {
+      const isUndo = input.msg.type === "undo";
+      const snapshot = isUndo
+        ? past[past.length - 1]
+        : future[future.length - 1];
+
+      if (!snapshot) {
+        return output;
+      }
+
+      const restored = update(config, {
+        model: output.model,
+        msg: { type: "set-selected-items", selectedItems: snapshot },
+      });
+
+      const current = initialModel.selectedItems;
+
+      return {
+        model: {
+          ...restored.model,
+          selectionHistory: isUndo
+            ? { past: past.slice(0, -1), future: [...future, current] }
+            : { past: [...past, current], future: future.slice(0, -1) },
+        },
+        effects: [...output.effects, ...restored.effects],
+        events: [...output.events, ...restored.events],
+      };
+    }
+
+    if (!didSelectedItemsChange(config, initialModel, output.model)) {
+      return output;
+    }
+
+    const pastNew = [...past, initialModel.selectedItems];
+
+    return {
+      ...output,
+      model: {
+        ...output.model,
+        selectionHistory: {
+          past: pastNew.slice(Math.max(0, pastNew.length - maxDepth)),
+          future: [],
+        },
+      },
+    };
+  };
@@ -20,7 +20,7 @@ export const toggleOnSelect =
         ? msg.item
         : null;
 
-    if (inputtedItem === null) {
+    if (inputtedItem === null || config.isItemDisabled(inputtedItem)) {
       return output;
     }
 
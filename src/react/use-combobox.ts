@@ -0,0 +1,365 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type HTMLAttributes,
+  type InputHTMLAttributes,
+  type RefCallback,
+} from "react";
+import {
+  handleEffects,
+  handleEvents,
+  init,
+  keyToMsg,
+  searchItemStore,
+  toCurrentInputValue,
+  toState,
+  update,
+  type Config,
+  type Effect,
+  type LoadMoreItemsEffect,
+  type Model,
+  type Msg,
+  type Plugin,
+  type SearchItemsEffect,
+} from "../combobox";
+
+/** @module React **/
+
+/**
+ * @group React
+ */
+export type UseComboboxOptions<T> = Parameters<typeof init<T>>[1] & {
+  /**
+   * @description
+   * Makes the selected items controlled. The model is derived with `set-selected-items` during render whenever it differs.
+   * Update it in `onSelectedItemsChange`.
+   */
+  selectedItems?: T[];
+  onSelectedItemsChange?: (selectedItems: T[]) => void;
+  onInputValueChange?: (inputValue: string) => void;
+};
+
+/**
+ * @group React
+ */
+export type InputProps = InputHTMLAttributes<HTMLInputElement> & {
+  ref: RefCallback<HTMLInputElement>;
+};
+
+/**
+ * @group React
+ */
+export type ElementProps = HTMLAttributes<HTMLElement> & {
+  ref: RefCallback<HTMLElement>;
+};
+
+/**
+ * @group React
+ *
+ * This hook keeps the model in state, runs `update` with the plugins and runs the effects on the elements of the prop getters.
+ * `allItems` is synced with `set-all-items` when it changes.
+ * The `search-items` and `load-more-items` effects are run with `searchItemStore`. Results that arrive after unmount are dropped.
+ */
+export const useCombobox = <T>(
+  config: Config<T>,
+  options: UseComboboxOptions<T>,
+  plugins: Plugin<T>[] = []
+) => {
+  const optionsRef = useRef(options);
+  const pluginsRef = useRef(plugins);
+  optionsRef.current = options;
+  pluginsRef.current = plugins;
+
+  const [storedModel, setModel] = useState(() =>
+    toControlledModel(
+      config,
+      init(config, options),
+      options.selectedItems,
+      plugins
+    )
+  );
+
+  // deriving the controlled selected items during render means no render shows stale selected items
+  const model = useMemo(
+    () =>
+      toControlledModel(
+        config,
+        storedModel,
+        options.selectedItems,
+        pluginsRef.current
+      ),
+    [config, storedModel, options.selectedItems]
+  );
+
+  // event handlers dispatch more than once per render so they read and write the latest model here
+  const modelRef = useRef(model);
+  modelRef.current = model;
+
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const itemRefs = useRef(new Map<string | number, HTMLElement>());
+  const selectedItemRefs = useRef(new Map<string | number, HTMLElement>());
+  const pendingEffects = useRef<Effect<T>[]>([]);
+  const timeouts = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const isMounted = useRef(true);
+
+  const runEffects = useCallback(() => {
+    const effects = pendingEffects.current;
+    pendingEffects.current = [];
+
+    const runItemStore = (effect: SearchItemsEffect | LoadMoreItemsEffect) => {
+      searchItemStore(config, effect).then((msg) => {
+        if (isMounted.current) {
+          dispatch(msg);
+        }
+      });
+    };
+
+    handleEffects(
+      { effects },
+      {
+        scrollItemIntoView: (item) => {
+          itemRefs.current
+            .get(config.toItemId(item))
+            ?.scrollIntoView({ block: "nearest" });
+        },
+        focusInput: () => {
+          inputRef.current?.focus();
+        },
+        blurInput: () => {
+          inputRef.current?.blur();
+        },
+        focusSelectedItem: (item) => {
+          selectedItemRefs.current.get(config.toItemId(item))?.focus();
+        },
+        setInputSelectionRange: (start, end) => {
+          inputRef.current?.setSelectionRange(start, end);
+        },
+        scheduleTypeaheadTimeout: (id, timeout) => {
+          const handle = setTimeout(() => {
+            timeouts.current.delete(handle);
+            dispatch({ type: "typeahead-timeout-elapsed", id });
+          }, timeout);
+          timeouts.current.add(handle);
+        },
+        searchItems: (effect) => {
+          runItemStore(effect);
+        },
+        loadMoreItems: (effect) => {
+          runItemStore(effect);
+        },
+      }
+    );
+  }, [config]);
+
+  const dispatch = useCallback(
+    (msg: Msg<T>) => {
+      const output = update(
+        config,
+        { model: modelRef.current, msg },
+        pluginsRef.current
+      );
+
+      const didModelChange = output.model !== modelRef.current;
+
+      modelRef.current = output.model;
+      pendingEffects.current = pendingEffects.current.concat(output.effects);
+
+      handleEvents(output, {
+        onSelectedItemsChanged: () => {
+          optionsRef.current.onSelectedItemsChange?.(
+            output.model.selectedItems
+          );
+        },
+        onInputValueChanged: () => {
+          optionsRef.current.onInputValueChange?.(
+            toCurrentInputValue(config, output.model)
+          );
+        },
+      });
+
+      if (didModelChange) {
+        setModel(output.model);
+      } else {
+        // nothing will render so run the effects now
+        runEffects();
+      }
+    },
+    [config, runEffects]
+  );
+
+  // effects run after render so newly rendered elements are in the refs
+  useEffect(() => {
+    if (pendingEffects.current.length > 0) {
+      runEffects();
+    }
+  });
+
+  useEffect(() => {
+    const handles = timeouts.current;
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      handles.forEach(clearTimeout);
+      handles.clear();
+    };
+  }, []);
+
+  // compared with the previous prop because the controlled selected items can add to the model's all items
+  const allItemsRef = useRef(options.allItems);
+  useEffect(() => {
+    if (options.allItems !== allItemsRef.current) {
+      allItemsRef.current = options.allItems;
+      dispatch({ type: "set-all-items", allItems: options.allItems });
+    }
+  }, [options.allItems, dispatch]);
+
+  const state = toState(config, model);
+
+  const getInputProps = (): InputProps => {
+    // react warns about the lower case attribute names and "combobox" is not an attribute of <input />
+    const {
+      tabindex,
+      autocomplete,
+      spellcheck: _,
+      combobox: __,
+      ...aria
+    } = state.aria.input;
+    return {
+      ...aria,
+      tabIndex: tabindex,
+      autoComplete: autocomplete,
+      spellCheck: false,
+      ref: (element) => {
+        inputRef.current = element;
+      },
+      value: state.inputValue,
+      readOnly: model.inputMode.type === "select-only",
+      onChange: (event) => {
+        dispatch({
+          type: "inputted-value",
+          inputValue: event.currentTarget.value,
+        });
+      },
+      onFocus: () => {
+        dispatch({ type: "focused-input" });
+      },
+      onBlur: () => {
+        dispatch({ type: "blurred-input" });
+      },
+      onMouseDown: () => {
+        dispatch({ type: "pressed-input" });
+      },
+      onKeyDown: (event) => {
+        const msg = keyToMsg<T>(event.key, modelRef.current, {
+          ctrlKey: event.ctrlKey,
+          metaKey: event.metaKey,
+          shiftKey: event.shiftKey,
+        });
+        if (msg.shouldPreventDefault) {
+          event.preventDefault();
+        }
+        dispatch(msg);
+      },
+    };
+  };
+
+  const getListboxProps = (): HTMLAttributes<HTMLElement> => {
+    const { tabindex, ...aria } = state.aria.itemList;
+    return {
+      ...aria,
+      tabIndex: tabindex,
+    };
+  };
+
+  /**
+   * `index` is the index of the item in the filtered items. Same as `RenderItem.index`.
+   */
+  const getItemProps = (item: T, index: number): ElementProps => {
+    const itemId = config.toItemId(item);
+    return {
+      ...state.aria.item(item),
+      ref: (element) => {
+        if (element) {
+          itemRefs.current.set(itemId, element);
+        } else {
+          itemRefs.current.delete(itemId);
+        }
+      },
+      onMouseMove: () => {
+        dispatch({ type: "hovered-over-item", index });
+      },
+      onMouseDown: (event) => {
+        // mousedown instead of click so the input does not blur first
+        event.preventDefault();
+        dispatch({ type: "pressed-item", item });
+      },
+    };
+  };
+
+  const getSelectedItemProps = (item: T): ElementProps => {
+    const itemId = config.toItemId(item);
+    const { tabindex, ...aria } = state.aria.selectedItem(item);
+    return {
+      ...aria,
+      tabIndex: tabindex,
+      ref: (element) => {
+        if (element) {
+          selectedItemRefs.current.set(itemId, element);
+        } else {
+          selectedItemRefs.current.delete(itemId);
+        }
+      },
+      onFocus: () => {
+        dispatch({ type: "focused-selected-item", item });
+      },
+      onBlur: () => {
+        dispatch({ type: "blurred-selected-item", item });
+      },
+    };
+  };
+
+  return {
+    model,
+    state,
+    dispatch,
+    getInputProps,
+    getListboxProps,
+    getItemProps,
+    getSelectedItemProps,
+  };
+};
+
+const toControlledModel = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  selectedItems: T[] | undefined,
+  plugins: Plugin<T>[]
+): Model<T> => {
+  if (
+    !selectedItems ||
+    isSameItemIds(config, selectedItems, model.selectedItems)
+  ) {
+    return model;
+  }
+
+  return update(
+    config,
+    { model, msg: { type: "set-selected-items", selectedItems } },
+    plugins
+  ).model;
+};
+
+const isSameItemIds = <T>(config: Config<T>, a: T[], b: T[]): boolean => {
+  return (
+    a.length === b.length &&
+    a.every((item, index) => {
+      const other = b[index];
+      return (
+        other !== undefined && config.toItemId(item) === config.toItemId(other)
+      );
+    })
+  );
+};
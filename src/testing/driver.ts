@@ -0,0 +1,274 @@
+import {
+  isOpened,
+  keyToMsg,
+  toCurrentInputValue,
+  toHighlightedItem,
+  toInlineCompletion,
+  toSelectedItems,
+  update,
+  type Config,
+  type Effect,
+  type Event,
+  type Model,
+  type Msg,
+  type Output,
+  type Plugin,
+} from "../combobox";
+
+/**
+ * @group Testing
+ *
+ * Thrown by the `expect` helpers of the driver.
+ */
+export class DriverAssertionError extends Error {
+  expected: unknown;
+  actual: unknown;
+
+  constructor(message: string, expected: unknown, actual: unknown) {
+    super(
+      `${message}\n  expected: ${JSON.stringify(
+        expected
+      )}\n  actual: ${JSON.stringify(actual)}`
+    );
+    this.name = "DriverAssertionError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * @group Testing
+ *
+ * Sends messages the way a user would and collects the effects and events.
+ * Every action and `expect` helper returns the driver so calls can be chained.
+ */
+export type Driver<T> = {
+  send: (msg: Msg<T>) => Driver<T>;
+  focus: () => Driver<T>;
+  blur: () => Driver<T>;
+  pressInput: () => Driver<T>;
+  /**
+   * @description
+   * Types one character at a time. In `select-only` mode each character is a key press for type-ahead.
+   */
+  type: (text: string) => Driver<T>;
+  /**
+   * @description
+   * Presses a key by its `KeyboardEvent.key`. Uses `keyToMsg`.
+   */
+  key: (
+    key: string,
+    modifiers?: { ctrlKey?: boolean; metaKey?: boolean; shiftKey?: boolean }
+  ) => Driver<T>;
+  arrowUp: () => Driver<T>;
+  arrowDown: () => Driver<T>;
+  arrowLeft: () => Driver<T>;
+  arrowRight: () => Driver<T>;
+  home: () => Driver<T>;
+  end: () => Driver<T>;
+  pageUp: () => Driver<T>;
+  pageDown: () => Driver<T>;
+  enter: () => Driver<T>;
+  escape: () => Driver<T>;
+  backspace: () => Driver<T>;
+  pressItem: (itemId: string | number) => Driver<T>;
+  hoverItem: (index: number) => Driver<T>;
+  pressUnselectButton: (itemId: string | number) => Driver<T>;
+  pressUnselectAllButton: () => Driver<T>;
+  pressClearButton: () => Driver<T>;
+  setAllItems: (allItems: T[]) => Driver<T>;
+  setSelectedItems: (selectedItems: T[]) => Driver<T>;
+  toModel: () => Model<T>;
+  /**
+   * @description
+   * The effects of every message sent since the driver was created or `resetEffectsAndEvents` was called.
+   */
+  toEffects: () => Effect<T>[];
+  /**
+   * @description
+   * The events of every message sent since the driver was created or `resetEffectsAndEvents` was called.
+   */
+  toEvents: () => Event<T>[];
+  resetEffectsAndEvents: () => Driver<T>;
+  /**
+   * @description
+   * The ids of the selected items in the order they are rendered. See `toSelectedItems`.
+   */
+  expectSelected: (itemIds: (string | number)[]) => Driver<T>;
+  expectOpened: () => Driver<T>;
+  expectClosed: () => Driver<T>;
+  expectHighlighted: (itemId: string | number | null) => Driver<T>;
+  expectInputValue: (inputValue: string) => Driver<T>;
+  expectEvent: (type: Event<T>["type"]) => Driver<T>;
+  expectEffect: (type: Effect<T>["type"]) => Driver<T>;
+};
+
+/**
+ * @group Testing
+ *
+ * This function returns a driver for unit testing a combobox without a DOM.
+ * Pass the same plugins the app uses.
+ *
+ * @example
+ * initDriver(config, { model }).focus().type("ap").arrowDown().enter().expectSelected(["apple"]);
+ */
+export const initDriver = <T>(
+  config: Config<T>,
+  {
+    model: initialModel,
+    plugins = [],
+  }: {
+    model: Model<T>;
+    plugins?: Plugin<T>[];
+  }
+): Driver<T> => {
+  let model = initialModel;
+  let effects: Effect<T>[] = [];
+  let events: Event<T>[] = [];
+
+  const toItem = (items: T[], itemId: string | number): T => {
+    const item = items.find((item) => config.toItemId(item) === itemId);
+    if (item === undefined) {
+      throw new Error(`No item with the id ${JSON.stringify(itemId)}`);
+    }
+    return item;
+  };
+
+  const send = (msg: Msg<T>): Driver<T> => {
+    const output: Output<T> = update(config, { model, msg }, plugins);
+    model = output.model;
+    effects = effects.concat(output.effects);
+    events = events.concat(output.events);
+    return driver;
+  };
+
+  const assert = (
+    isPassing: boolean,
+    message: string,
+    expected: unknown,
+    actual: unknown
+  ): Driver<T> => {
+    if (!isPassing) {
+      throw new DriverAssertionError(message, expected, actual);
+    }
+    return driver;
+  };
+
+  const driver: Driver<T> = {
+    send,
+    focus: () => send({ type: "focused-input" }),
+    blur: () => send({ type: "blurred-input" }),
+    pressInput: () => send({ type: "pressed-input" }),
+    type: (text) => {
+      for (const char of text) {
+        if (model.inputMode.type === "select-only") {
+          send({ type: "pressed-key", key: char });
+        } else {
+          // the inline completion is text selected in the input so typing replaces it
+          const inputValue = toCurrentInputValue(config, model);
+          const typedInputValue = inputValue.slice(
+            0,
+            inputValue.length - toInlineCompletion(model).length
+          );
+          send({
+            type: "inputted-value",
+            inputValue: typedInputValue + char,
+          });
+        }
+      }
+      return driver;
+    },
+    key: (key, modifiers) => send(keyToMsg<T>(key, model, modifiers)),
+    arrowUp: () =>
+      send({ type: "pressed-vertical-arrow-key", key: "arrow-up" }),
+    arrowDown: () =>
+      send({ type: "pressed-vertical-arrow-key", key: "arrow-down" }),
+    arrowLeft: () =>
+      send({ type: "pressed-horizontal-arrow-key", key: "arrow-left" }),
+    arrowRight: () =>
+      send({ type: "pressed-horizontal-arrow-key", key: "arrow-right" }),
+    home: () => send({ type: "pressed-jump-key", key: "home" }),
+    end: () => send({ type: "pressed-jump-key", key: "end" }),
+    pageUp: () => send({ type: "pressed-jump-key", key: "page-up" }),
+    pageDown: () => send({ type: "pressed-jump-key", key: "page-down" }),
+    enter: () => send({ type: "pressed-enter-key" }),
+    escape: () => send({ type: "pressed-escape-key" }),
+    backspace: () => send({ type: "pressed-backspace-key" }),
+    pressItem: (itemId) =>
+      send({ type: "pressed-item", item: toItem(model.allItems, itemId) }),
+    hoverItem: (index) => send({ type: "hovered-over-item", index }),
+    pressUnselectButton: (itemId) =>
+      send({
+        type: "pressed-unselect-button",
+        item: toItem(model.selectedItems, itemId),
+      }),
+    pressUnselectAllButton: () => send({ type: "pressed-unselect-all-button" }),
+    pressClearButton: () => send({ type: "pressed-clear-button" }),
+    setAllItems: (allItems) => send({ type: "set-all-items", allItems }),
+    setSelectedItems: (selectedItems) =>
+      send({ type: "set-selected-items", selectedItems }),
+    toModel: () => model,
+    toEffects: () => effects,
+    toEvents: () => events,
+    resetEffectsAndEvents: () => {
+      effects = [];
+      events = [];
+      return driver;
+    },
+    expectSelected: (itemIds) => {
+      const selectedItemIds = toSelectedItems(config, model).map(
+        config.toItemId
+      );
+      return assert(
+        JSON.stringify(selectedItemIds) === JSON.stringify(itemIds),
+        "Expected the selected items",
+        itemIds,
+        selectedItemIds
+      );
+    },
+    expectOpened: () => {
+      return assert(isOpened(model), "Expected opened", "opened", model.type);
+    },
+    expectClosed: () => {
+      return assert(!isOpened(model), "Expected closed", "closed", model.type);
+    },
+    expectHighlighted: (itemId) => {
+      const highlightedItem = toHighlightedItem(config, model);
+      const highlightedItemId =
+        highlightedItem === null ? null : config.toItemId(highlightedItem);
+      return assert(
+        highlightedItemId === itemId,
+        "Expected the highlighted item",
+        itemId,
+        highlightedItemId
+      );
+    },
+    expectInputValue: (inputValue) => {
+      const currentInputValue = toCurrentInputValue(config, model);
+      return assert(
+        currentInputValue === inputValue,
+        "Expected the input value",
+        inputValue,
+        currentInputValue
+      );
+    },
+    expectEvent: (type) => {
+      return assert(
+        events.some((event) => event.type === type),
+        "Expected an event",
+        type,
+        events.map((event) => event.type)
+      );
+    },
+    expectEffect: (type) => {
+      return assert(
+        effects.some((effect) => effect.type === type),
+        "Expected an effect",
+        type,
+        effects.map((effect) => effect.type)
+      );
+    },
+  };
+
+  return driver;
+};
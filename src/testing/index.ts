@@ -0,0 +1,2 @@
+export * from "./property-testing";
+export * from "./driver";
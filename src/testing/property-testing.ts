@@ -0,0 +1,616 @@
+import {
+  init,
+  toCurrentInputValue,
+  toFilteredItemsMemoized,
+  update,
+  type Config,
+  type InputMode,
+  type JumpKey,
+  type Model,
+  type Msg,
+  type Output,
+  type Plugin,
+  type SelectMode,
+} from "../combobox";
+import { assertModelInvariants } from "../combobox-invariants";
+
+/** @module Testing **/
+
+/**
+ * @group Testing
+ *
+ * A seeded pseudo random number generator. The same seed always generates the same numbers.
+ */
+export type Random = {
+  /**
+   * @description
+   * Returns a number from 0 up to but not including 1.
+   */
+  next: () => number;
+  /**
+   * @description
+   * Returns an integer from 0 up to but not including `max`.
+   */
+  int: (max: number) => number;
+};
+
+/**
+ * @group Testing
+ *
+ * This function returns a seeded pseudo random number generator. Uses mulberry32.
+ */
+export const initRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (max) => Math.floor(next() * Math.max(0, max)),
+  };
+};
+
+const pick = <X>(random: Random, xs: X[]): X | undefined => {
+  return xs[random.int(xs.length)];
+};
+
+const jumpKeys: JumpKey[] = ["home", "end", "page-up", "page-down"];
+
+/**
+ * @group Testing
+ *
+ * This function returns a random message a user could send in the current state of the model.
+ * Items are only pressed or hovered when they are in the filtered items and selected items are only unselected or focused when they are selected.
+ * Item store results are only received for the pending search. `set-all-items` and the item store results pick from `allItems`, which defaults to the model's.
+ * Other messages of the host app and timers are not generated except for the typeahead timeout.
+ */
+export const generateMsg = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  random: Random,
+  { allItems = model.allItems }: { allItems?: T[] } = {}
+): Msg<T> => {
+  const filteredItems = toFilteredItemsMemoized(config)(model);
+  const itemInputValues = model.allItems.map(config.toItemInputValue);
+
+  const generators: (() => Msg<T> | null)[] = [
+    () => ({ type: "focused-input" }),
+    () => ({ type: "blurred-input" }),
+    () => ({ type: "pressed-input" }),
+    () => ({ type: "toggle-opened" }),
+    () => ({ type: "pressed-clear-button" }),
+    () => ({ type: "pressed-unselect-all-button" }),
+    () => ({
+      type: "pressed-vertical-arrow-key",
+      key: random.int(2) === 0 ? "arrow-up" : "arrow-down",
+    }),
+    () => ({
+      type: "pressed-horizontal-arrow-key",
+      key: random.int(2) === 0 ? "arrow-left" : "arrow-right",
+    }),
+    () => ({
+      type: "pressed-jump-key",
+      key: pick(random, jumpKeys) ?? "home",
+    }),
+    () => ({ type: "pressed-backspace-key" }),
+    () => ({ type: "pressed-escape-key" }),
+    () => ({ type: "pressed-enter-key" }),
+    () => {
+      const inputValue = pick(random, itemInputValues);
+      return inputValue
+        ? { type: "pressed-key", key: inputValue.charAt(0) }
+        : null;
+    },
+    () => {
+      if (model.inputMode.type === "select-only") {
+        return null;
+      }
+      return {
+        type: "inputted-value",
+        inputValue: toRandomInputValue(
+          random,
+          toCurrentInputValue(config, model),
+          itemInputValues
+        ),
+      };
+    },
+    () => {
+      const item = pick(random, filteredItems);
+      return item === undefined ? null : { type: "pressed-item", item };
+    },
+    () => {
+      return filteredItems.length === 0
+        ? null
+        : {
+            type: "hovered-over-item",
+            index: random.int(filteredItems.length),
+          };
+    },
+    () => {
+      const item = pick(random, model.selectedItems);
+      return item === undefined
+        ? null
+        : { type: "pressed-unselect-button", item };
+    },
+    () => {
+      const item = pick(random, model.selectedItems);
+      return item === undefined
+        ? null
+        : { type: "focused-selected-item", item };
+    },
+    () => {
+      const item = pick(random, model.selectedItems);
+      return item === undefined
+        ? null
+        : { type: "blurred-selected-item", item };
+    },
+    () => {
+      return model.inputMode.type === "select-only" && model.inputMode.typeahead
+        ? {
+            type: "typeahead-timeout-elapsed",
+            id: model.inputMode.typeahead.id,
+          }
+        : null;
+    },
+    () => ({ type: "undo" }),
+    () => ({ type: "redo" }),
+    () => ({
+      type: "set-all-items",
+      allItems: toRandomSubset(random, allItems),
+    }),
+    () => {
+      return isItemStoreLoading(model)
+        ? {
+            type: "received-items",
+            requestId: model.itemStoreState.requestId,
+            items: toRandomSubset(random, allItems).slice(
+              0,
+              config.itemStorePageSize
+            ),
+            total: allItems.length,
+          }
+        : null;
+    },
+    () => {
+      return isItemStoreLoading(model)
+        ? {
+            type: "failed-to-receive-items",
+            requestId: model.itemStoreState.requestId,
+            error: new Error("Failed to receive items"),
+          }
+        : null;
+    },
+  ];
+
+  // some generators do not apply to every model so keep trying
+  for (;;) {
+    const msg = pick(random, generators)?.();
+    if (msg) {
+      return msg;
+    }
+  }
+};
+
+const toRandomSubset = <X>(random: Random, xs: X[]): X[] => {
+  return xs.filter(() => random.int(2) === 0);
+};
+
+const isItemStoreLoading = <T>(model: Model<T>): boolean => {
+  return (
+    model.itemStoreState.type === "loading" ||
+    model.itemStoreState.type === "loading-more"
+  );
+};
+
+/**
+ * Typing is simulated by appending or removing a character, or replacing the input value with the start of an item.
+ */
+const toRandomInputValue = (
+  random: Random,
+  inputValue: string,
+  itemInputValues: string[]
+): string => {
+  switch (random.int(3)) {
+    case 0: {
+      return inputValue.slice(0, -1);
+    }
+    case 1: {
+      const itemInputValue = pick(random, itemInputValues) ?? "";
+      return itemInputValue.slice(0, 1 + random.int(itemInputValue.length));
+    }
+    default: {
+      const itemInputValue = pick(random, itemInputValues) ?? "";
+      return (
+        inputValue + itemInputValue.charAt(random.int(itemInputValue.length))
+      );
+    }
+  }
+};
+
+/**
+ * @group Testing
+ *
+ * This function returns true when `generateMsg` could have generated the message for the model.
+ * Used to throw away shrunk sequences that no user could send.
+ */
+export const isMsgValid = <T>(
+  config: Config<T>,
+  model: Model<T>,
+  msg: Msg<T>
+): boolean => {
+  switch (msg.type) {
+    case "inputted-value": {
+      return model.inputMode.type !== "select-only";
+    }
+    case "pressed-item": {
+      const itemId = config.toItemId(msg.item);
+      return toFilteredItemsMemoized(config)(model).some(
+        (item) => config.toItemId(item) === itemId
+      );
+    }
+    case "hovered-over-item": {
+      return (
+        msg.index >= 0 &&
+        msg.index < toFilteredItemsMemoized(config)(model).length
+      );
+    }
+    case "pressed-unselect-button":
+    case "focused-selected-item":
+    case "blurred-selected-item": {
+      const itemId = config.toItemId(msg.item);
+      return model.selectedItems.some(
+        (item) => config.toItemId(item) === itemId
+      );
+    }
+    case "typeahead-timeout-elapsed": {
+      return (
+        model.inputMode.type === "select-only" &&
+        model.inputMode.typeahead?.id === msg.id
+      );
+    }
+    case "received-items":
+    case "failed-to-receive-items": {
+      return (
+        isItemStoreLoading(model) &&
+        model.itemStoreState.requestId === msg.requestId
+      );
+    }
+    default: {
+      return true;
+    }
+  }
+};
+
+/**
+ * @group Testing
+ *
+ * This function returns a random sequence of valid messages.
+ * Each message is generated from the model the previous messages lead to, so the plugins must be the same ones the sequence is run with.
+ */
+export const generateMsgs = <T>(
+  config: Config<T>,
+  {
+    model,
+    plugins = [],
+    length,
+    seed,
+  }: {
+    model: Model<T>;
+    plugins?: Plugin<T>[];
+    length: number;
+    seed: number;
+  }
+): Msg<T>[] => {
+  const random = initRandom(seed);
+  const msgs: Msg<T>[] = [];
+  let current = model;
+
+  for (let i = 0; i < length; i++) {
+    const msg = generateMsg(config, current, random, {
+      allItems: model.allItems,
+    });
+    msgs.push(msg);
+    current = update(config, { model: current, msg }, plugins).model;
+  }
+
+  return msgs;
+};
+
+/**
+ * @group Testing
+ *
+ * What a property gets to check after every step.
+ */
+export type PropertyStep<T> = {
+  config: Config<T>;
+  prev: Model<T>;
+  msg: Msg<T>;
+  output: Output<T>;
+};
+
+/**
+ * @group Testing
+ *
+ * A property should hold after every step. It fails by returning `false` or by throwing.
+ * Throwing assertions like `expect` from a test runner work too.
+ */
+export type Property<T> = {
+  name: string;
+  check: (step: PropertyStep<T>) => boolean | void;
+};
+
+/**
+ * @group Testing
+ *
+ * A property that fails when the model breaks an invariant. See `toModelInvariantViolations`.
+ */
+export const modelInvariantsProperty = <T>(): Property<T> => {
+  return {
+    name: "model-invariants",
+    check: ({ config, output }) => {
+      assertModelInvariants(config, output.model);
+    },
+  };
+};
+
+/**
+ * @group Testing
+ */
+export type PropertyResult<T> =
+  | {
+      type: "passed";
+      runs: number;
+    }
+  | {
+      type: "failed";
+      property: string;
+      message: string;
+      /**
+       * @description
+       * The seed of the failing run. Pass it with `runs: 1` to run it again.
+       */
+      seed: number;
+      /**
+       * @description
+       * The shrunk sequence. Running it from the initial model fails the property on the last message.
+       */
+      msgs: Msg<T>[];
+      /**
+       * @description
+       * The sequence before shrinking.
+       */
+      originalMsgs: Msg<T>[];
+      /**
+       * @description
+       * The model the last message of the shrunk sequence was sent to.
+       */
+      model: Model<T>;
+    };
+
+type Failure<T> = {
+  property: string;
+  message: string;
+  stepIndex: number;
+  model: Model<T>;
+};
+
+/**
+ * @group Testing
+ *
+ * This function runs random message sequences through `update` with the plugins and checks the properties after every step.
+ * A failing sequence is shrunk to a minimal reproduction by removing messages while it still fails the same property.
+ * Run seeds are `seed`, `seed + 1` and so on.
+ */
+export const checkProperties = <T>(
+  config: Config<T>,
+  {
+    allItems,
+    selectMode,
+    inputMode,
+    plugins = [],
+    properties,
+    runs = 100,
+    length = 50,
+    seed = Math.floor(Math.random() * 4294967296),
+    maxShrinks = 1000,
+  }: {
+    allItems: T[];
+    selectMode?: SelectMode;
+    inputMode?: InputMode;
+    plugins?: Plugin<T>[];
+    properties: Property<T>[];
+    runs?: number;
+    /**
+     * @description
+     * The number of messages in each run.
+     */
+    length?: number;
+    seed?: number;
+    /**
+     * @description
+     * The maximum number of sequences tried while shrinking.
+     */
+    maxShrinks?: number;
+  }
+): PropertyResult<T> => {
+  const initialModel = init(config, { allItems, selectMode, inputMode });
+
+  for (let run = 0; run < runs; run++) {
+    const runSeed = (seed + run) >>> 0;
+    const random = initRandom(runSeed);
+    const msgs: Msg<T>[] = [];
+    let model = initialModel;
+
+    for (let i = 0; i < length; i++) {
+      const msg = generateMsg(config, model, random, { allItems });
+      msgs.push(msg);
+
+      const output = update(config, { model, msg }, plugins);
+      const failed = checkStep(properties, {
+        config,
+        prev: model,
+        msg,
+        output,
+      });
+
+      if (failed) {
+        const shrunk = shrink(config, {
+          initialModel,
+          plugins,
+          properties,
+          msgs,
+          failure: { ...failed, stepIndex: i, model },
+          maxShrinks,
+        });
+
+        return {
+          type: "failed",
+          property: shrunk.failure.property,
+          message: shrunk.failure.message,
+          seed: runSeed,
+          msgs: shrunk.msgs,
+          originalMsgs: msgs,
+          model: shrunk.failure.model,
+        };
+      }
+
+      model = output.model;
+    }
+  }
+
+  return { type: "passed", runs };
+};
+
+const checkStep = <T>(
+  properties: Property<T>[],
+  step: PropertyStep<T>
+): { property: string; message: string } | null => {
+  for (const property of properties) {
+    try {
+      if (property.check(step) === false) {
+        return { property: property.name, message: "returned false" };
+      }
+    } catch (error) {
+      return {
+        property: property.name,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Returns null when the sequence passes or has a message that is not valid for the model it is sent to.
+ */
+const runMsgs = <T>(
+  config: Config<T>,
+  {
+    initialModel,
+    plugins,
+    properties,
+    msgs,
+  }: {
+    initialModel: Model<T>;
+    plugins: Plugin<T>[];
+    properties: Property<T>[];
+    msgs: Msg<T>[];
+  }
+): Failure<T> | null => {
+  let model = initialModel;
+
+  for (let stepIndex = 0; stepIndex < msgs.length; stepIndex++) {
+    const msg = msgs[stepIndex];
+
+    if (!msg || !isMsgValid(config, model, msg)) {
+      return null;
+    }
+
+    const output = update(config, { model, msg }, plugins);
+    const failed = checkStep(properties, { config, prev: model, msg, output });
+
+    if (failed) {
+      return { ...failed, stepIndex, model };
+    }
+
+    model = output.model;
+  }
+
+  return null;
+};
+
+/**
+ * Removes chunks of messages, halving the chunk size down to single messages, while the sequence still fails the same property.
+ */
+const shrink = <T>(
+  config: Config<T>,
+  {
+    initialModel,
+    plugins,
+    properties,
+    msgs,
+    failure,
+    maxShrinks,
+  }: {
+    initialModel: Model<T>;
+    plugins: Plugin<T>[];
+    properties: Property<T>[];
+    msgs: Msg<T>[];
+    failure: Failure<T>;
+    maxShrinks: number;
+  }
+): { msgs: Msg<T>[]; failure: Failure<T> } => {
+  let current = msgs.slice(0, failure.stepIndex + 1);
+  let currentFailure = failure;
+  let attempts = 0;
+  let chunkSize = Math.max(1, Math.floor(current.length / 2));
+
+  while (attempts < maxShrinks) {
+    let index = 0;
+    let didShrink = false;
+
+    while (index < current.length && attempts < maxShrinks) {
+      attempts++;
+
+      const candidate = [
+        ...current.slice(0, index),
+        ...current.slice(index + chunkSize),
+      ];
+
+      const candidateFailure =
+        candidate.length === 0
+          ? null
+          : runMsgs(config, {
+              initialModel,
+              plugins,
+              properties,
+              msgs: candidate,
+            });
+
+      if (
+        candidateFailure &&
+        candidateFailure.property === currentFailure.property
+      ) {
+        current = candidate.slice(0, candidateFailure.stepIndex + 1);
+        currentFailure = candidateFailure;
+        didShrink = true;
+      } else {
+        index += chunkSize;
+      }
+    }
+
+    if (chunkSize === 1 && !didShrink) {
+      break;
+    }
+
+    chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+  }
+
+  return { msgs: current, failure: currentFailure };
+};
@@ -1,3 +1,4 @@
 export * from "./lru-cache";
 export * from "./non-empty";
+export * from "./normalize-text";
 export * from "./utils";
@@ -0,0 +1,94 @@
+export type NormalizeTextOptions = {
+  stripDiacritics: boolean;
+  locale?: string | string[];
+  foldWidth: boolean;
+};
+
+/**
+ * The normalized text with the index of the original character of each normalized character.
+ * `starts` and `ends` are omitted when the normalized text lines up with the original text.
+ */
+export type NormalizedText = {
+  text: string;
+  starts?: number[];
+  ends?: number[];
+};
+
+const diacriticRegex = /[\u0300-\u036f]/g;
+
+const asciiRegex = /^[\x00-\x7f]*$/;
+
+export const initNormalizeText = ({
+  stripDiacritics,
+  locale,
+  foldWidth,
+}: NormalizeTextOptions) => {
+  return (text: string): string => {
+    // NFKC maps full-width and half-width forms to their normal width forms
+    const widthFolded = foldWidth ? text.normalize("NFKC") : text;
+
+    // locale insensitive by default so filtering does not depend on the host
+    const caseFolded = locale
+      ? widthFolded.toLocaleLowerCase(locale)
+      : widthFolded.toLowerCase();
+
+    // case folding can add combining marks. For example "İ" to "i̇"
+    return stripDiacritics
+      ? caseFolded.normalize("NFD").replace(diacriticRegex, "")
+      : caseFolded;
+  };
+};
+
+/**
+ * Normalizes each character by itself so match ranges in the normalized text can be mapped back to the original text.
+ */
+export const toNormalizedText = (
+  normalize: (text: string) => string,
+  text: string
+): NormalizedText => {
+  // ascii characters always normalize to exactly one character
+  if (asciiRegex.test(text)) {
+    return { text: normalize(text) };
+  }
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let normalized = "";
+  let index = 0;
+
+  for (const char of text) {
+    const normalizedChar = normalize(char);
+    for (let i = 0; i < normalizedChar.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    normalized += normalizedChar;
+    index += char.length;
+  }
+
+  return { text: normalized, starts, ends };
+};
+
+/**
+ * Maps a range of the normalized text to the range of the original text.
+ */
+export const toOriginalRange = (
+  normalizedText: NormalizedText,
+  range: { start: number; end: number }
+): { start: number; end: number } => {
+  const { starts, ends } = normalizedText;
+
+  if (!starts || !ends) {
+    return range;
+  }
+
+  if (range.end <= range.start) {
+    const start = starts[range.start] ?? ends[ends.length - 1] ?? 0;
+    return { start, end: start };
+  }
+
+  return {
+    start: starts[range.start] ?? 0,
+    end: ends[range.end - 1] ?? 0,
+  };
+};
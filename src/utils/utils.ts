@@ -48,6 +48,29 @@ export const yieldUnique = function* <T>(
   }
 };
 
+/**
+ * @description
+ * Groups items by key. Groups are ordered by the first item of each group.
+ */
+export const groupBy = <T, K>(
+  toKey: (item: T) => K,
+  items: Iterable<T>
+): Map<K, T[]> => {
+  const groups = new Map<K, T[]>();
+
+  for (const item of items) {
+    const key = toKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  return groups;
+};
+
 /**
  * @description
  * Set intersection, but preserves the order of the left array.
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+  toCreatableItem: (inputValue) => ({ label: inputValue, year: 2024 }),
+});
+
+const search = (model: Combobox.Model<Item>, inputValue: string) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+describe("combobox creatable items", () => {
+  it("adds a creatable item to the end of the filtered items", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(initial, "The Godfather: Part IV");
+    const filtered = Combobox.toFilteredItems(config, searched.model);
+    expect(filtered.map((item) => item.label)).toEqual([
+      "The Godfather: Part IV",
+    ]);
+    expect(Combobox.toRenderItems(config, searched.model)[0]?.isCreatable).toBe(
+      true
+    );
+  });
+
+  it("does not add a creatable item when the search value matches an item exactly", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(initial, "the godfather");
+    expect(Combobox.toCreatableItem(config, searched.model)).toBe(null);
+    expect(
+      Combobox.toFilteredItems(config, searched.model).map((x) => x.label)
+    ).toEqual(["The Godfather", "The Godfather: Part II"]);
+  });
+
+  it("computes the creatable item once per model when rendering windows", () => {
+    const toCreatableItem = vi.fn((inputValue: string) => ({
+      label: inputValue,
+      year: 2024,
+    }));
+    const configSpied = Combobox.initConfig<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      toCreatableItem,
+    });
+    const searched = Combobox.chainUpdates(
+      Combobox.update(configSpied, {
+        model: Combobox.init(configSpied, { allItems }),
+        msg: { type: "pressed-input" },
+      }),
+      (model) =>
+        Combobox.update(configSpied, {
+          model,
+          msg: { type: "inputted-value", inputValue: "the" },
+        })
+    );
+    toCreatableItem.mockClear();
+
+    for (let start = 0; start < 10; start++) {
+      Combobox.toRenderWindow(configSpied, searched.model, {
+        start,
+        end: start + 5,
+      });
+    }
+
+    expect(toCreatableItem).toHaveBeenCalledTimes(1);
+  });
+
+  it("creates the item when enter key is pressed", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(initial, "Heat");
+    const entered = Combobox.chainUpdates(
+      searched,
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-vertical-arrow-key", key: "arrow-down" },
+        }),
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "pressed-enter-key" } })
+    );
+    const created = { label: "Heat", year: 2024 };
+    expect(Combobox.toSelectedItem(config, entered.model)).toEqual(created);
+    expect(entered.model.allItems).toContainEqual(created);
+    expect(entered.events).toContainEqual({ type: "item-created", item: created });
+  });
+
+  it("does not emit item created when all items are set to include the creatable item", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(initial, "Heat");
+    const created = { label: "Heat", year: 2024 };
+    const set = Combobox.update(config, {
+      model: searched.model,
+      msg: { type: "set-all-items", allItems: [...allItems, created] },
+    });
+    expect(set.model.allItems).toContainEqual(created);
+    expect(set.events).not.toContainEqual({ type: "item-created", item: created });
+  });
+
+  it("adds the created item to selected items and all items in multi select", () => {
+    const initial = Combobox.init(config, {
+      allItems,
+      selectMode: { type: "multi-select", selectedItemListDirection: "left-to-right" },
+    });
+    const selected = Combobox.update(config, {
+      model: initial,
+      msg: { type: "set-selected-items", selectedItems: [allItems[0]!] },
+    });
+    const searched = search(selected.model, "Heat");
+    const created = { label: "Heat", year: 2024 };
+    const pressed = Combobox.update(config, {
+      model: searched.model,
+      msg: { type: "pressed-item", item: created },
+    });
+    expect(Combobox.toSelectedItems(config, pressed.model)).toEqual([
+      allItems[0],
+      created,
+    ]);
+    expect(pressed.model.allItems.length).toBe(allItems.length + 1);
+    expect(pressed.events).toContainEqual({ type: "item-created", item: created });
+    expect(pressed.events).toContainEqual({ type: "selected-items-changed" });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const disabledLabels = new Set([allItems[1]?.label, allItems[2]?.label]);
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+  isItemDisabled: (item) => disabledLabels.has(item.label),
+});
+
+const pressArrow = (
+  model: Combobox.Model<Item>,
+  key: "arrow-up" | "arrow-down"
+) => {
+  return Combobox.update(config, {
+    model,
+    msg: { type: "pressed-vertical-arrow-key", key },
+  });
+};
+
+describe("combobox disabled items", () => {
+  it("skips disabled items when navigating down in clamp mode", () => {
+    const initial = Combobox.init(config, { allItems });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const first = pressArrow(pressed.model, "arrow-down");
+    const second = pressArrow(first.model, "arrow-down");
+    expect(Combobox.toHighlightedIndex(first.model)).toBe(0);
+    expect(Combobox.toHighlightedIndex(second.model)).toBe(3);
+    expect(Combobox.toHighlightedItem(config, second.model)).toEqual(
+      allItems[3]
+    );
+  });
+
+  it("skips disabled items when navigating up in clamp mode", () => {
+    const initial = Combobox.init(config, { allItems });
+    const hovered = Combobox.update(config, {
+      model: { ...initial, type: "focused-opened" },
+      msg: { type: "hovered-over-item", index: 3 },
+    });
+    const pressedKey = pressArrow(hovered.model, "arrow-up");
+    expect(Combobox.toHighlightedIndex(pressedKey.model)).toBe(0);
+  });
+
+  it("skips disabled items when navigating in circular mode", () => {
+    const allDisabledButFirst = Combobox.initConfig<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      isItemDisabled: (item) => item.label !== allItems[0]?.label,
+    });
+    const initial = Combobox.init(allDisabledButFirst, {
+      allItems,
+      highlightMode: { type: "circular" },
+    });
+    const hovered = Combobox.update(allDisabledButFirst, {
+      model: { ...initial, type: "focused-opened" },
+      msg: { type: "hovered-over-item", index: 0 },
+    });
+    const pressedKey = Combobox.update(allDisabledButFirst, {
+      model: hovered.model,
+      msg: { type: "pressed-vertical-arrow-key", key: "arrow-up" },
+    });
+    expect(Combobox.toHighlightedIndex(pressedKey.model)).toBe(0);
+  });
+
+  it("does not select disabled items when pressed", () => {
+    const initial = Combobox.init(config, { allItems });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const item = allItems[1]!;
+    const selected = Combobox.update(config, {
+      model: pressed.model,
+      msg: { type: "pressed-item", item },
+    });
+    expect(Combobox.toSelectedItems(config, selected.model)).toEqual([]);
+    expect(Combobox.isOpened(selected.model)).toBe(true);
+    expect(selected.events).toEqual([]);
+  });
+
+  it("does not select disabled items when enter key is pressed", () => {
+    const initial = Combobox.init(config, { allItems });
+    const hovered = Combobox.update(config, {
+      model: { ...initial, type: "focused-opened" },
+      msg: { type: "hovered-over-item", index: 2 },
+    });
+    const entered = Combobox.update(config, {
+      model: hovered.model,
+      msg: { type: "pressed-enter-key" },
+    });
+    expect(Combobox.toSelectedItems(config, entered.model)).toEqual([]);
+  });
+
+  it("reports disabled status and aria attributes", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderItems = Combobox.toRenderItems(config, initial);
+    expect(Combobox.toItemStatus(config, initial, allItems[1]!)).toBe(
+      "disabled"
+    );
+    expect(renderItems[1]?.status).toBe("disabled");
+    expect(renderItems[1]?.aria["aria-disabled"]).toBe(true);
+    expect(renderItems[0]?.status).toBe("unselected");
+    expect(renderItems[0]?.aria["aria-disabled"]).toBe(false);
+  });
+});
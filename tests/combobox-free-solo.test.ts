@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const initFreeSolo = () => {
+  return Combobox.init(config, {
+    allItems,
+    inputMode: { type: "free-solo", inputValue: "" },
+  });
+};
+
+const type = (model: Combobox.Model<Item>, inputValue: string) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+describe("combobox free solo", () => {
+  it("commits the typed text when blurred", () => {
+    const typed = type(initFreeSolo(), "Some Movie");
+    const blurred = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "blurred-input" },
+    });
+    expect(Combobox.toCommittedValue(config, blurred.model)).toBe("Some Movie");
+    expect(Combobox.toCurrentInputValue(config, blurred.model)).toBe(
+      "Some Movie"
+    );
+    expect(blurred.events).toContainEqual({ type: "value-committed" });
+  });
+
+  it("commits the typed text when enter key is pressed", () => {
+    const typed = type(initFreeSolo(), "Some Movie");
+    const entered = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "pressed-enter-key" },
+    });
+    expect(Combobox.isClosed(entered.model)).toBe(true);
+    expect(Combobox.toCommittedValue(config, entered.model)).toBe("Some Movie");
+    expect(entered.events).toContainEqual({ type: "value-committed" });
+  });
+
+  it("commits the selected item's input value", () => {
+    const typed = type(initFreeSolo(), "godfather");
+    const pressed = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "pressed-item", item: allItems[1]! },
+    });
+    expect(Combobox.toCommittedValue(config, pressed.model)).toBe(
+      "The Godfather"
+    );
+    expect(pressed.events).toContainEqual({ type: "value-committed" });
+  });
+
+  it("unselects the selected item when different text is committed", () => {
+    const typed = type(initFreeSolo(), "godfather");
+    const pressed = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "pressed-item", item: allItems[1]! },
+    });
+    const retyped = type(pressed.model, "The Godfather 4");
+    const blurred = Combobox.update(config, {
+      model: retyped.model,
+      msg: { type: "blurred-input" },
+    });
+    expect(Combobox.toSelectedItem(config, blurred.model)).toBe(null);
+    expect(Combobox.toCommittedValue(config, blurred.model)).toBe(
+      "The Godfather 4"
+    );
+    expect(Combobox.toCurrentInputValue(config, blurred.model)).toBe(
+      "The Godfather 4"
+    );
+  });
+
+  it("does not commit in search mode", () => {
+    const initial = Combobox.init(config, { allItems });
+    const typed = type(initial, "Some Movie");
+    const blurred = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "blurred-input" },
+    });
+    expect(Combobox.toCommittedValue(config, blurred.model)).toBe(null);
+    expect(Combobox.toCurrentInputValue(config, blurred.model)).toBe("");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+
+type Item = { id: number; label: string; group: string };
+
+const allItems: Item[] = [
+  { id: 0, label: "apple", group: "Fruits" },
+  { id: 1, label: "carrot", group: "Vegetables" },
+  { id: 2, label: "banana", group: "Fruits" },
+  { id: 3, label: "potato", group: "Vegetables" },
+  { id: 4, label: "cherry", group: "Fruits" },
+];
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.id,
+  toItemInputValue: (item) => item.label,
+  toItemGroup: (item) => item.group,
+});
+
+const pressArrowDown = (model: Combobox.Model<Item>) => {
+  return Combobox.update(config, {
+    model,
+    msg: { type: "pressed-vertical-arrow-key", key: "arrow-down" },
+  });
+};
+
+describe("combobox groups", () => {
+  it("orders filtered items so groups are next to each other", () => {
+    const initial = Combobox.init(config, { allItems });
+    expect(
+      Combobox.toFilteredItems(config, initial).map((item) => item.label)
+    ).toEqual(["apple", "banana", "cherry", "carrot", "potato"]);
+  });
+
+  it("returns render groups with labels and aria props", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderGroups = Combobox.toRenderGroups(config, initial);
+    expect(renderGroups.map((group) => group.label)).toEqual([
+      "Fruits",
+      "Vegetables",
+    ]);
+    expect(
+      renderGroups.map((group) => group.renderItems.map((x) => x.index))
+    ).toEqual([
+      [0, 1, 2],
+      [3, 4],
+    ]);
+    expect(renderGroups[1]?.aria).toEqual({
+      id: "combobox-group-1",
+      role: "group",
+      "aria-labelledby": "combobox-group-1-label",
+    });
+    expect(renderGroups[1]?.ariaLabel.id).toBe("combobox-group-1-label");
+  });
+
+  it("groups the render items of the state instead of rendering them again", () => {
+    const initial = Combobox.init(config, { allItems });
+    const state = Combobox.toState(config, initial);
+    expect(
+      state.renderGroups.flatMap((group) => group.renderItems)
+    ).toStrictEqual(state.renderItems);
+    expect(state.renderGroups[0]?.renderItems[0]).toBe(state.renderItems[0]);
+  });
+
+  it("navigates across group boundaries with the keyboard", () => {
+    const initial = Combobox.init(config, { allItems });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const highlighted = Combobox.chainUpdates(
+      pressed,
+      pressArrowDown,
+      pressArrowDown,
+      pressArrowDown,
+      pressArrowDown
+    );
+    const renderGroups = Combobox.toRenderGroups(config, highlighted.model);
+    expect(Combobox.toHighlightedIndex(highlighted.model)).toBe(3);
+    expect(Combobox.toHighlightedItem(config, highlighted.model)?.label).toBe(
+      "carrot"
+    );
+    expect(renderGroups[1]?.renderItems[0]?.status).toBe("highlighted");
+  });
+
+  it("shows the highlighted grouped item in the input in select only mode", () => {
+    const selectModes: Combobox.SelectMode[] = [
+      { type: "single-select" },
+      { type: "multi-select", selectedItemListDirection: "left-to-right" },
+    ];
+
+    for (const selectMode of selectModes) {
+      const initial = Combobox.init(config, {
+        allItems,
+        selectMode,
+        inputMode: { type: "select-only" },
+      });
+      const highlighted = Combobox.chainUpdates(
+        Combobox.update(config, {
+          model: initial,
+          msg: { type: "pressed-input" },
+        }),
+        pressArrowDown,
+        pressArrowDown
+      );
+      expect(Combobox.toHighlightedItem(config, highlighted.model)?.label).toBe(
+        "banana"
+      );
+      expect(Combobox.toCurrentInputValue(config, highlighted.model)).toBe(
+        "banana"
+      );
+    }
+  });
+
+  it("returns no render groups when toItemGroup is not set", () => {
+    const ungrouped = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+    });
+    const initial = Combobox.init(ungrouped, { allItems });
+    expect(Combobox.toRenderGroups(ungrouped, initial)).toEqual([]);
+  });
+});
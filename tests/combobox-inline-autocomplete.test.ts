@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+  autocomplete: "both",
+});
+
+const type = (model: Combobox.Model<Item>, inputValue: string) => {
+  return Combobox.update(config, {
+    model,
+    msg: { type: "inputted-value", inputValue },
+  });
+};
+
+const initFocused = () => {
+  const initial = Combobox.init(config, { allItems });
+  return Combobox.update(config, {
+    model: initial,
+    msg: { type: "focused-input" },
+  }).model;
+};
+
+describe("combobox inline autocomplete", () => {
+  it("completes the typed text and selects the completed part", () => {
+    const typed = type(initFocused(), "gla");
+    expect(Combobox.toCurrentInputValue(config, typed.model)).toBe(
+      "gladiator"
+    );
+    expect(Combobox.toSearchValue(typed.model)).toBe("gla");
+    expect(typed.effects).toContainEqual({
+      type: "set-input-selection-range",
+      start: 3,
+      end: 9,
+    });
+    expect(Combobox.toHighlightedItem(config, typed.model)?.label).toBe(
+      "Gladiator"
+    );
+  });
+
+  it("filters with the typed text instead of the completed text", () => {
+    const typed = type(initFocused(), "the g");
+    expect(
+      Combobox.toFilteredItems(config, typed.model).map((item) => item.label)
+    ).toEqual([
+      "The Godfather",
+      "The Godfather: Part II",
+      "The Good, the Bad and the Ugly",
+      "The Green Mile",
+      "The Great Dictator",
+    ]);
+  });
+
+  it("removes the completion instead of typed characters on backspace", () => {
+    const typed = type(initFocused(), "gla");
+    const keyMsg = Combobox.keyToMsg<Item>("Backspace", typed.model);
+    const backspaced = Combobox.update(config, {
+      model: typed.model,
+      msg: keyMsg,
+    });
+    expect(keyMsg.shouldPreventDefault).toBe(true);
+    expect(Combobox.toCurrentInputValue(config, backspaced.model)).toBe("gla");
+  });
+
+  it("keeps the completion until escape or blur", () => {
+    const typed = type(initFocused(), "gla");
+    const hovered = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "hovered-over-item", index: 0 },
+    });
+    expect(Combobox.toCurrentInputValue(config, hovered.model)).toBe(
+      "gladiator"
+    );
+
+    for (const msg of [
+      { type: "pressed-escape-key" },
+      { type: "blurred-input" },
+    ] as const) {
+      const cleared = Combobox.update(config, { model: typed.model, msg });
+      expect(Combobox.toInlineCompletion(cleared.model)).toBe("");
+    }
+  });
+
+  it("accepts the completion on arrow right and end", () => {
+    const typed = type(initFocused(), "gla");
+
+    for (const key of ["ArrowRight", "End"]) {
+      const accepted = Combobox.update(config, {
+        model: typed.model,
+        msg: Combobox.keyToMsg<Item>(key, typed.model),
+      });
+      expect(Combobox.toSearchValue(accepted.model)).toBe("gladiator");
+      expect(Combobox.toInlineCompletion(accepted.model)).toBe("");
+      expect(Combobox.toHighlightedItem(config, accepted.model)?.label).toBe(
+        "Gladiator"
+      );
+    }
+  });
+
+  it("does not complete again when the completion is deleted", () => {
+    const typed = type(initFocused(), "gla");
+    const deleted = type(typed.model, "gla");
+    expect(Combobox.toCurrentInputValue(config, deleted.model)).toBe("gla");
+    expect(deleted.effects).toEqual([]);
+  });
+
+  it("selects the completed item on enter", () => {
+    const typed = type(initFocused(), "gla");
+    const entered = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "pressed-enter-key" },
+    });
+    expect(Combobox.toSelectedItem(config, entered.model)?.label).toBe(
+      "Gladiator"
+    );
+  });
+
+  it("reports aria-autocomplete both", () => {
+    const model = initFocused();
+    expect(Combobox.ariaInput(config, model)["aria-autocomplete"]).toBe(
+      "both"
+    );
+  });
+});
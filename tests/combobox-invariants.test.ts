@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const toInvariants = (model: Combobox.Model<Item>) =>
+  Combobox.toModelInvariantViolations(config, model).map((x) => x.invariant);
+
+describe("combobox invariants", () => {
+  it("passes for models returned by update", () => {
+    const initial = Combobox.init(config, { allItems });
+    const msgs: Combobox.Msg<Item>[] = [
+      { type: "focused-input" },
+      { type: "inputted-value", inputValue: "the" },
+      { type: "pressed-vertical-arrow-key", key: "arrow-up" },
+      { type: "inputted-value", inputValue: "the god" },
+      { type: "pressed-enter-key" },
+      { type: "blurred-input" },
+    ];
+    let model = initial;
+    for (const msg of msgs) {
+      model = Combobox.updateChecked(config, { model, msg }).model;
+    }
+    expect(() => Combobox.assertModelInvariants(config, model)).not.toThrow();
+  });
+
+  it("finds impossible states", () => {
+    const initial = Combobox.init(config, { allItems });
+    expect(
+      toInvariants({
+        ...initial,
+        type: "focused-opened-highlighted",
+        highlightIndex: allItems.length,
+        isKeyboardNavigation: true,
+      })
+    ).toEqual(["highlight-index-in-filtered-items"]);
+    expect(
+      toInvariants({
+        ...initial,
+        type: "highlighted-selected",
+        focusedIndex: 1,
+        selectedItems: [allItems[0]!],
+      })
+    ).toEqual(["focused-index-in-selected-items"]);
+    expect(
+      toInvariants({ ...initial, allItems: [allItems[0]!, allItems[0]!] })
+    ).toEqual(["unique-item-ids"]);
+    expect(
+      toInvariants({
+        ...initial,
+        allItems: allItems.slice(1),
+        selectedItems: [allItems[0]!],
+      })
+    ).toEqual(["selected-items-in-all-items"]);
+    expect(
+      toInvariants({ ...initial, selectedItems: [allItems[0]!, allItems[1]!] })
+    ).toEqual(["single-selected-item"]);
+  });
+
+  it("allows selected items missing from all items when preserveSelected is set", () => {
+    const preserving = Combobox.initConfig<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      preserveSelected: true,
+    });
+    const initial = Combobox.init(preserving, { allItems: allItems.slice(1) });
+    expect(
+      Combobox.toModelInvariantViolations(preserving, {
+        ...initial,
+        selectedItems: [allItems[0]!],
+      })
+    ).toEqual([]);
+  });
+
+  it("throws with the msg and a diff of the model", () => {
+    const initial = Combobox.init(config, { allItems });
+    const breakHighlight: Combobox.Plugin<Item> = ({ output }) => ({
+      ...output,
+      model: {
+        ...output.model,
+        type: "focused-opened-highlighted",
+        highlightIndex: -1,
+        isKeyboardNavigation: true,
+      },
+    });
+    const run = () =>
+      Combobox.updateChecked(
+        config,
+        { model: initial, msg: { type: "pressed-input" } },
+        [breakHighlight]
+      );
+    expect(run).toThrow(Combobox.ModelInvariantError);
+    expect(run).toThrow(
+      [
+        `Combobox model invariants violated after msg {"type":"pressed-input"}`,
+        "  - highlight-index-in-filtered-items: highlightIndex -1 is outside of the 100 filtered items",
+        "Model diff:",
+        `  type: "blurred" -> "focused-opened-highlighted"`,
+      ].join("\n")
+    );
+  });
+
+  it("warns instead of throwing when asked to", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const initial = Combobox.init(config, { allItems });
+    const output = Combobox.updateChecked(
+      config,
+      {
+        model: { ...initial, allItems: [allItems[0]!, allItems[0]!] },
+        msg: { type: "focused-input" },
+      },
+      [],
+      { onViolation: "warn" }
+    );
+    expect(output.model.type).toBe("focused-closed");
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0]?.[0]).toContain("unique-item-ids");
+    warn.mockRestore();
+  });
+});
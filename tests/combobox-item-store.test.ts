@@ -0,0 +1,388 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const itemStore = Combobox.initItemStore<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+});
+
+await itemStore.insert({ items: allItems });
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+  itemStore,
+  itemStorePageSize: 5,
+});
+
+const toSearchItemsEffect = (output: Combobox.Output<Item>) => {
+  const effect = output.effects.find(
+    (effect): effect is Combobox.SearchItemsEffect =>
+      effect.type === "search-items"
+  );
+  if (!effect) {
+    throw new Error("Expected a search-items effect");
+  }
+  return effect;
+};
+
+const initFocused = () => {
+  const initial = Combobox.init(config, { allItems: [] });
+  return Combobox.update(config, {
+    model: initial,
+    msg: { type: "focused-input" },
+  }).model;
+};
+
+describe("combobox item store", () => {
+  it("searches the item store when opened", async () => {
+    const initial = Combobox.init(config, { allItems: [] });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const effect = toSearchItemsEffect(pressed);
+    expect(effect).toEqual({
+      type: "search-items",
+      requestId: 1,
+      searchQuery: "",
+      page: 0,
+      pageSize: 5,
+    });
+    expect(Combobox.isLoadingItems(pressed.model)).toBe(true);
+
+    const received = Combobox.update(config, {
+      model: pressed.model,
+      msg: await Combobox.searchItemStore(config, effect),
+    });
+    expect(Combobox.isLoadingItems(received.model)).toBe(false);
+    expect(Combobox.toFilteredItems(config, received.model)).toEqual(
+      allItems.slice(0, 5)
+    );
+  });
+
+  it("searches the item store when typing", async () => {
+    const typed = Combobox.update(config, {
+      model: initFocused(),
+      msg: { type: "inputted-value", inputValue: "lord" },
+    });
+    const effect = toSearchItemsEffect(typed);
+    const received = Combobox.update(config, {
+      model: typed.model,
+      msg: await Combobox.searchItemStore(config, effect),
+    });
+    expect(effect.searchQuery).toBe("lord");
+    expect(Combobox.toFilteredItems(config, received.model).length).toBe(3);
+  });
+
+  it("drops stale responses", async () => {
+    const first = Combobox.update(config, {
+      model: initFocused(),
+      msg: { type: "inputted-value", inputValue: "the" },
+    });
+    const second = Combobox.update(config, {
+      model: first.model,
+      msg: { type: "inputted-value", inputValue: "the lord" },
+    });
+    const secondReceived = Combobox.update(config, {
+      model: second.model,
+      msg: await Combobox.searchItemStore(config, toSearchItemsEffect(second)),
+    });
+    const firstReceived = Combobox.update(config, {
+      model: secondReceived.model,
+      msg: await Combobox.searchItemStore(config, toSearchItemsEffect(first)),
+    });
+    expect(firstReceived.model).toEqual(secondReceived.model);
+    expect(
+      Combobox.toFilteredItems(config, firstReceived.model).map((x) => x.label)
+    ).toEqual([
+      "The Lord of the Rings: The Return of the King",
+      "The Lord of the Rings: The Fellowship of the Ring",
+      "The Lord of the Rings: The Two Towers",
+    ]);
+  });
+
+  it("keeps the selected items in all items when searching again", async () => {
+    const initial = Combobox.init(config, {
+      allItems: [],
+      selectMode: {
+        type: "multi-select",
+        selectedItemListDirection: "left-to-right",
+      },
+    });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const loaded = Combobox.update(config, {
+      model: pressed.model,
+      msg: await Combobox.searchItemStore(config, toSearchItemsEffect(pressed)),
+    });
+    const godfather = allItems[1]!;
+    const selected = Combobox.update(config, {
+      model: loaded.model,
+      msg: { type: "pressed-item", item: godfather },
+    });
+    const typed = Combobox.update(config, {
+      model: Combobox.update(config, {
+        model: selected.model,
+        msg: { type: "pressed-input" },
+      }).model,
+      msg: { type: "inputted-value", inputValue: "lord" },
+    });
+    const received = Combobox.update(config, {
+      model: typed.model,
+      msg: await Combobox.searchItemStore(config, toSearchItemsEffect(typed)),
+    });
+
+    expect(received.model.selectedItems).toEqual([godfather]);
+    expect(Combobox.toModelInvariantViolations(config, received.model)).toEqual(
+      []
+    );
+    expect(
+      Combobox.toFilteredItems(config, received.model).map((x) => x.label)
+    ).toEqual([
+      "The Lord of the Rings: The Return of the King",
+      "The Lord of the Rings: The Fellowship of the Ring",
+      "The Lord of the Rings: The Two Towers",
+    ]);
+  });
+
+  it("keeps the highlight in the results when fewer items arrive", async () => {
+    const initial = Combobox.init(config, { allItems: allItems.slice(0, 10) });
+    const highlighted = Combobox.chainUpdates(
+      Combobox.update(config, {
+        model: initial,
+        msg: { type: "pressed-input" },
+      }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-jump-key", key: "end" },
+        })
+    );
+    expect(Combobox.toHighlightedIndex(highlighted.model)).toBe(9);
+
+    const received = Combobox.update(config, {
+      model: highlighted.model,
+      msg: await Combobox.searchItemStore(
+        config,
+        toSearchItemsEffect(highlighted)
+      ),
+    });
+    expect(Combobox.toHighlightedIndex(received.model)).toBe(4);
+    expect(Combobox.toModelInvariantViolations(config, received.model)).toEqual(
+      []
+    );
+  });
+
+  it("does not share cached filtered items between different item store states", () => {
+    const initial = Combobox.init(config, { allItems: allItems.slice(0, 5) });
+    const loaded: Combobox.Model<Item> = {
+      ...initial,
+      itemStoreState: {
+        type: "loaded",
+        requestId: 1,
+        searchQuery: "",
+        page: 0,
+        total: 2,
+        itemCount: 2,
+      },
+    };
+    const toFilteredItemsMemoized = Combobox.toFilteredItemsMemoized(config);
+    expect(toFilteredItemsMemoized(initial)).toEqual(allItems.slice(0, 5));
+    expect(toFilteredItemsMemoized(loaded)).toEqual(allItems.slice(0, 2));
+  });
+
+  it("tracks errors", () => {
+    const initial = Combobox.init(config, { allItems: [] });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const error = new Error("Network error");
+    const failed = Combobox.update(config, {
+      model: pressed.model,
+      msg: {
+        type: "failed-to-receive-items",
+        requestId: toSearchItemsEffect(pressed).requestId,
+        error,
+      },
+    });
+    expect(Combobox.isLoadingItems(failed.model)).toBe(false);
+    expect(Combobox.toItemStoreError(failed.model)).toBe(error);
+  });
+
+  it("retries a failed search when reopened or the same query is typed again", () => {
+    const typed = Combobox.update(config, {
+      model: initFocused(),
+      msg: { type: "inputted-value", inputValue: "lord" },
+    });
+    const failed = Combobox.update(config, {
+      model: typed.model,
+      msg: {
+        type: "failed-to-receive-items",
+        requestId: toSearchItemsEffect(typed).requestId,
+        error: new Error("Network error"),
+      },
+    });
+
+    const retyped = Combobox.update(config, {
+      model: failed.model,
+      msg: { type: "inputted-value", inputValue: "lord" },
+    });
+    expect(toSearchItemsEffect(retyped).searchQuery).toBe("lord");
+    expect(Combobox.isLoadingItems(retyped.model)).toBe(true);
+
+    const pressed = Combobox.update(config, {
+      model: Combobox.init(config, { allItems: [] }),
+      msg: { type: "pressed-input" },
+    });
+    const pressedFailed = Combobox.update(config, {
+      model: pressed.model,
+      msg: {
+        type: "failed-to-receive-items",
+        requestId: toSearchItemsEffect(pressed).requestId,
+        error: new Error("Network error"),
+      },
+    });
+    const closed = Combobox.update(config, {
+      model: pressedFailed.model,
+      msg: { type: "pressed-escape-key" },
+    });
+    const reopened = Combobox.update(config, {
+      model: closed.model,
+      msg: { type: "pressed-input" },
+    });
+    expect(toSearchItemsEffect(reopened)).toMatchObject({
+      searchQuery: "",
+      requestId: 2,
+    });
+  });
+});
+
+describe("combobox item store load more", () => {
+  const toLoadMoreItemsEffect = (output: Combobox.Output<Item>) => {
+    const effect = output.effects.find(
+      (effect): effect is Combobox.LoadMoreItemsEffect =>
+        effect.type === "load-more-items"
+    );
+    if (!effect) {
+      throw new Error("Expected a load-more-items effect");
+    }
+    return effect;
+  };
+
+  const initLoaded = async () => {
+    const initial = Combobox.init(config, { allItems: [] });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    return Combobox.update(config, {
+      model: pressed.model,
+      msg: await Combobox.searchItemStore(config, toSearchItemsEffect(pressed)),
+    }).model;
+  };
+
+  it("loads the next page when the end of the list is reached", async () => {
+    const loaded = await initLoaded();
+    const reachedEnd = Combobox.update(config, {
+      model: loaded,
+      msg: { type: "reached-end-of-list" },
+    });
+    const effect = toLoadMoreItemsEffect(reachedEnd);
+    expect(effect.page).toBe(1);
+    expect(Combobox.hasMoreItems(config, loaded)).toBe(true);
+    expect(Combobox.isLoadingMoreItems(reachedEnd.model)).toBe(true);
+
+    const received = Combobox.update(config, {
+      model: reachedEnd.model,
+      msg: await Combobox.searchItemStore(config, effect),
+    });
+    expect(Combobox.toFilteredItems(config, received.model)).toEqual(
+      allItems.slice(0, 10)
+    );
+  });
+
+  it("loads the next page when arrowing to the last item without resetting the highlight", async () => {
+    const loaded = await initLoaded();
+    const hovered = Combobox.update(config, {
+      model: loaded,
+      msg: { type: "hovered-over-item", index: 3 },
+    });
+    const pressed = Combobox.update(config, {
+      model: hovered.model,
+      msg: { type: "pressed-vertical-arrow-key", key: "arrow-down" },
+    });
+    const received = Combobox.update(config, {
+      model: pressed.model,
+      msg: await Combobox.searchItemStore(
+        config,
+        toLoadMoreItemsEffect(pressed)
+      ),
+    });
+    expect(Combobox.toHighlightedIndex(received.model)).toBe(4);
+    expect(received.model.allItems.length).toBe(10);
+  });
+
+  it("keeps the loaded items and retries the page after a failed load more", async () => {
+    const loaded = await initLoaded();
+    const reachedEnd = Combobox.update(config, {
+      model: loaded,
+      msg: { type: "reached-end-of-list" },
+    });
+    const error = new Error("Network error");
+    const failed = Combobox.update(config, {
+      model: reachedEnd.model,
+      msg: {
+        type: "failed-to-receive-items",
+        requestId: toLoadMoreItemsEffect(reachedEnd).requestId,
+        error,
+      },
+    });
+    expect(Combobox.toItemStoreError(failed.model)).toBe(error);
+    expect(Combobox.toFilteredItems(config, failed.model)).toEqual(
+      allItems.slice(0, 5)
+    );
+    expect(Combobox.hasMoreItems(config, failed.model)).toBe(true);
+
+    const retried = Combobox.update(config, {
+      model: failed.model,
+      msg: { type: "reached-end-of-list" },
+    });
+    const effect = toLoadMoreItemsEffect(retried);
+    expect(effect.page).toBe(1);
+
+    const received = Combobox.update(config, {
+      model: retried.model,
+      msg: await Combobox.searchItemStore(config, effect),
+    });
+    expect(Combobox.toItemStoreError(received.model)).toBe(null);
+    expect(Combobox.toFilteredItems(config, received.model)).toEqual(
+      allItems.slice(0, 10)
+    );
+  });
+
+  it("does not load more when there are no more items", async () => {
+    const loaded = await initLoaded();
+    const exhausted: Combobox.Model<Item> = {
+      ...loaded,
+      itemStoreState: {
+        type: "loaded",
+        requestId: loaded.itemStoreState.requestId,
+        searchQuery: "",
+        page: 0,
+        total: 5,
+        itemCount: 5,
+      },
+    };
+    const reachedEnd = Combobox.update(config, {
+      model: exhausted,
+      msg: { type: "reached-end-of-list" },
+    });
+    expect(Combobox.hasMoreItems(config, exhausted)).toBe(false);
+    expect(reachedEnd.effects).toEqual([]);
+  });
+});
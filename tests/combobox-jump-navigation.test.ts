@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const pressJumpKey = (model: Combobox.Model<Item>, key: Combobox.JumpKey) => {
+  return Combobox.update(config, {
+    model,
+    msg: { type: "pressed-jump-key", key },
+  });
+};
+
+const initOpened = (
+  options: Partial<Parameters<typeof Combobox.init<Item>>[1]> = {}
+) => {
+  const initial = Combobox.init(config, { allItems, pageSize: 5, ...options });
+  return Combobox.update(config, {
+    model: initial,
+    msg: { type: "pressed-input" },
+  }).model;
+};
+
+describe("combobox jump navigation", () => {
+  it("highlights the first and last item on home and end", () => {
+    const end = pressJumpKey(initOpened(), "end");
+    const home = pressJumpKey(end.model, "home");
+    expect(Combobox.toHighlightedIndex(end.model)).toBe(allItems.length - 1);
+    expect(Combobox.toHighlightedIndex(home.model)).toBe(0);
+    expect(end.effects).toContainEqual({
+      type: "scroll-item-into-view",
+      item: allItems[allItems.length - 1],
+      index: allItems.length - 1,
+    });
+  });
+
+  it("moves the highlight by page size on page down and page up", () => {
+    const first = pressJumpKey(initOpened(), "page-down");
+    const second = pressJumpKey(first.model, "page-down");
+    const third = pressJumpKey(second.model, "page-up");
+    expect(Combobox.toHighlightedIndex(first.model)).toBe(4);
+    expect(Combobox.toHighlightedIndex(second.model)).toBe(9);
+    expect(Combobox.toHighlightedIndex(third.model)).toBe(4);
+  });
+
+  it("clamps page up and page down in clamp mode", () => {
+    const home = pressJumpKey(initOpened(), "home");
+    const pageUp = pressJumpKey(home.model, "page-up");
+    const end = pressJumpKey(pageUp.model, "end");
+    const pageDown = pressJumpKey(end.model, "page-down");
+    expect(Combobox.toHighlightedIndex(pageUp.model)).toBe(0);
+    expect(Combobox.toHighlightedIndex(pageDown.model)).toBe(
+      allItems.length - 1
+    );
+  });
+
+  it("wraps page up and page down in circular mode", () => {
+    const home = pressJumpKey(
+      initOpened({ highlightMode: { type: "circular" } }),
+      "home"
+    );
+    const pageUp = pressJumpKey(home.model, "page-up");
+    expect(Combobox.toHighlightedIndex(pageUp.model)).toBe(
+      allItems.length - 5
+    );
+  });
+
+  it("does not handle home and end when closed in search mode", () => {
+    const initial = Combobox.init(config, { allItems });
+    const focused = Combobox.update(config, {
+      model: initial,
+      msg: { type: "focused-input" },
+    });
+    const home = pressJumpKey(focused.model, "home");
+    expect(home.model).toEqual(focused.model);
+    expect(
+      Combobox.keyToMsg<Item>("Home", focused.model).shouldPreventDefault
+    ).toBe(false);
+    expect(
+      Combobox.keyToMsg<Item>("Home", initOpened()).shouldPreventDefault
+    ).toBe(true);
+  });
+
+  it("opens and highlights when closed in select only mode", () => {
+    const initial = Combobox.init(config, {
+      allItems,
+      inputMode: { type: "select-only" },
+    });
+    const focused = Combobox.update(config, {
+      model: initial,
+      msg: { type: "focused-input" },
+    });
+    const end = pressJumpKey(focused.model, "end");
+    expect(Combobox.isOpened(end.model)).toBe(true);
+    expect(Combobox.toHighlightedIndex(end.model)).toBe(allItems.length - 1);
+  });
+});
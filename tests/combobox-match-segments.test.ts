@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+});
+
+const search = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>,
+  inputValue: string
+) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+describe("combobox match segments", () => {
+  it("splits the input value of render items into matched segments", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "father");
+    const renderItems = Combobox.toRenderItems(config, searched.model);
+    expect(renderItems[0]?.segments).toEqual([
+      { text: "The God", isMatch: false },
+      { text: "father", isMatch: true },
+    ]);
+    expect(renderItems[1]?.segments).toEqual([
+      { text: "The God", isMatch: false },
+      { text: "father", isMatch: true },
+      { text: ": Part II", isMatch: false },
+    ]);
+  });
+
+  it("matches case insensitive like simpleFilter", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "THE GOD");
+    const renderItems = Combobox.toRenderItems(config, searched.model);
+    expect(renderItems[0]?.segments).toEqual([
+      { text: "The God", isMatch: true },
+      { text: "father", isMatch: false },
+    ]);
+  });
+
+  it("returns one unmatched segment when there is no search value", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderItems = Combobox.toRenderItems(config, initial);
+    expect(renderItems[0]?.segments).toEqual([
+      { text: allItems[0]?.label, isMatch: false },
+    ]);
+  });
+
+  it("does not match the selected item's input value when reopened", () => {
+    const initial = Combobox.init(config, { allItems });
+    const selected = Combobox.chainUpdates(
+      search(config, initial, "father"),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-item", item: allItems[1]! },
+        }),
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "pressed-input" } })
+    );
+    expect(Combobox.toCurrentInputValue(config, selected.model)).toBe(
+      "The Godfather"
+    );
+    const renderItems = Combobox.toRenderItems(config, selected.model);
+    expect(
+      renderItems.some((renderItem) =>
+        renderItem.segments.some((segment) => segment.isMatch)
+      )
+    ).toBe(false);
+  });
+
+  it("uses the match ranges of custom filters", () => {
+    const fuzzy = Combobox.initConfig<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      toMatchRanges: (model, item) => {
+        const searchValue = Combobox.toSearchValue(model).toLowerCase();
+        const ranges: Combobox.MatchRange[] = [];
+        const label = item.label.toLowerCase();
+        let start = 0;
+        for (const char of searchValue) {
+          const index = label.indexOf(char, start);
+          if (index === -1) {
+            return [];
+          }
+          ranges.push({ start: index, end: index + 1 });
+          start = index + 1;
+        }
+        return ranges;
+      },
+    });
+    const initial = Combobox.init(fuzzy, { allItems });
+    const searched = search(fuzzy, initial, "Godfather");
+    const renderItem = Combobox.toRenderItems(fuzzy, searched.model)[0];
+    expect(renderItem?.segments).toEqual([
+      { text: "The ", isMatch: false },
+      { text: "Godfather", isMatch: true },
+    ]);
+  });
+
+  it("merges overlapping and clamps out of bounds ranges", () => {
+    expect(
+      Combobox.toSegments("abcdef", [
+        { start: 4, end: 10 },
+        { start: 0, end: 2 },
+        { start: 1, end: 3 },
+      ])
+    ).toEqual([
+      { text: "abc", isMatch: true },
+      { text: "d", isMatch: false },
+      { text: "ef", isMatch: true },
+    ]);
+  });
+});
@@ -180,5 +180,28 @@ describe("combobox multi select", () => {
   
     expect(actual).toEqual(expected);
   })
+
+  it("focuses the selected item while an item is highlighted", () => {
+    const output = Combobox.chainUpdates(
+      { model: initMultiSelect(), effects: [], events: [] },
+      (model) => pressInput(model),
+      (model) => pressItem(model, allItems[5]),
+      (model) => pressInput(model),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-jump-key", key: "end" },
+        }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "focused-selected-item", item: allItems[5]! },
+        })
+    );
+    expect(output.model).toMatchObject({
+      type: "highlighted-selected",
+      focusedIndex: 0,
+    });
+  });
   
 });
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+
+type Item = { id: number; label: string };
+
+const allItems: Item[] = [
+  { id: 0, label: "apple" },
+  { id: 1, label: "apricot" },
+  { id: 2, label: "banana" },
+  { id: 3, label: "cherry" },
+];
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.id,
+  toItemInputValue: (item) => item.label,
+  isFrecencyEnabled: true,
+});
+
+const DAY = 1000 * 60 * 60 * 24;
+
+const select = (model: Combobox.Model<Item>, item: Item, timestamp: number) => {
+  const plugins = [Combobox.Plugins.frecency<Item>({ now: () => timestamp })];
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(
+        config,
+        { model, msg: { type: "pressed-input" } },
+        plugins
+      ),
+    (model) =>
+      Combobox.update(
+        config,
+        { model, msg: { type: "pressed-item", item } },
+        plugins
+      ),
+    (model) =>
+      Combobox.update(
+        config,
+        { model, msg: { type: "blurred-input" } },
+        plugins
+      )
+  );
+};
+
+const toLabels = (model: Combobox.Model<Item>) =>
+  Combobox.toFilteredItems(config, model).map((item) => item.label);
+
+describe("combobox plugin frecency", () => {
+  it("records selected items in the usage history", () => {
+    const initial = Combobox.init(config, { allItems });
+    const first = select(initial, allItems[2]!, 100);
+    const second = select(first.model, allItems[2]!, 200);
+    expect(first.events).toContainEqual({ type: "usage-history-changed" });
+    expect(Combobox.toUsageHistory(second.model)).toEqual({
+      entries: [{ itemId: 2, count: 1, lastUsedAt: 100 }],
+    });
+  });
+
+  it("counts selections of an item that was unselected in between", () => {
+    const initial = Combobox.init(config, { allItems });
+    const first = select(initial, allItems[2]!, 100);
+    const other = select(first.model, allItems[3]!, 200);
+    const again = select(other.model, allItems[2]!, 300);
+    expect(Combobox.toUsageHistory(again.model).entries).toEqual([
+      { itemId: 2, count: 2, lastUsedAt: 300 },
+      { itemId: 3, count: 1, lastUsedAt: 200 },
+    ]);
+  });
+
+  it("shows used items first in the recent group when not searching", () => {
+    const initial = Combobox.init(config, {
+      allItems,
+      usageHistory: {
+        entries: [
+          { itemId: 3, count: 1, lastUsedAt: 30 * DAY },
+          { itemId: 1, count: 2, lastUsedAt: 30 * DAY },
+        ],
+      },
+    });
+    expect(toLabels(initial)).toEqual(["apricot", "cherry", "apple", "banana"]);
+    const renderGroups = Combobox.toRenderGroups(config, initial);
+    expect(renderGroups.map((group) => group.label)).toEqual([
+      Combobox.recentGroupLabel,
+      "",
+    ]);
+    expect(renderGroups[0]?.renderItems.map((x) => x.item.label)).toEqual([
+      "apricot",
+      "cherry",
+    ]);
+  });
+
+  it("does not order or group by usage unless frecency is enabled", () => {
+    const configDisabled = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+    });
+    const initial = Combobox.init(configDisabled, {
+      allItems,
+      usageHistory: {
+        entries: [{ itemId: 3, count: 1, lastUsedAt: 30 * DAY }],
+      },
+    });
+    expect(
+      Combobox.toFilteredItems(configDisabled, initial).map((x) => x.label)
+    ).toEqual(["apple", "apricot", "banana", "cherry"]);
+    expect(Combobox.toRenderGroups(configDisabled, initial)).toEqual([]);
+  });
+
+  it("boosts frequently and recently used items when searching", () => {
+    const initial = Combobox.init(config, {
+      allItems,
+      usageHistory: {
+        entries: [
+          { itemId: 0, count: 3, lastUsedAt: 0 },
+          { itemId: 1, count: 1, lastUsedAt: 100 * DAY },
+        ],
+      },
+    });
+    const searched = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "inputted-value", inputValue: "ap" },
+        })
+    );
+    expect(toLabels(searched.model)).toEqual(["apricot", "apple"]);
+    expect(Combobox.toRenderGroups(config, searched.model)).toEqual([]);
+  });
+
+  it("does not share cached filtered items between different histories", () => {
+    const first = Combobox.init(config, {
+      allItems,
+      usageHistory: {
+        entries: [
+          { itemId: 2, count: 5, lastUsedAt: 100 * DAY },
+          { itemId: 3, count: 1, lastUsedAt: DAY },
+        ],
+      },
+    });
+    const second = Combobox.init(config, {
+      allItems,
+      usageHistory: {
+        entries: [
+          { itemId: 2, count: 1, lastUsedAt: DAY },
+          { itemId: 3, count: 5, lastUsedAt: 100 * DAY },
+        ],
+      },
+    });
+    const toMemoizedLabels = (model: Combobox.Model<Item>) =>
+      Combobox.toFilteredItemsMemoized(config)(model).map((item) => item.label);
+    expect(toMemoizedLabels(first).slice(0, 2)).toEqual(["banana", "cherry"]);
+    expect(toMemoizedLabels(second).slice(0, 2)).toEqual(["cherry", "banana"]);
+  });
+
+  it("leaves the usage history out of the cache key unless frecency is enabled", () => {
+    const configDisabled = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+    });
+    const first = Combobox.init(configDisabled, {
+      allItems,
+      usageHistory: {
+        entries: [{ itemId: 2, count: 1, lastUsedAt: DAY }],
+      },
+    });
+    const second = Combobox.init(configDisabled, {
+      allItems,
+      usageHistory: {
+        entries: [{ itemId: 3, count: 1, lastUsedAt: DAY }],
+      },
+    });
+    const toFilteredItemsMemoized =
+      Combobox.toFilteredItemsMemoized(configDisabled);
+    expect(toFilteredItemsMemoized(second)).toBe(
+      toFilteredItemsMemoized(first)
+    );
+  });
+
+  it("drops the lowest scoring entries when over the max entries", () => {
+    const recorded = Combobox.recordUsage(
+      {
+        entries: [
+          { itemId: 0, count: 5, lastUsedAt: 0 },
+          { itemId: 1, count: 1, lastUsedAt: 0 },
+        ],
+      },
+      [2],
+      DAY,
+      2
+    );
+    expect(recorded.entries.map((entry) => entry.itemId)).toEqual([0, 2]);
+  });
+
+  it("records usage when another plugin runs first", () => {
+    const plugins = [
+      Combobox.Plugins.muliSelect<Item>(),
+      Combobox.Plugins.frecency<Item>({ now: () => 100 }),
+    ];
+    const selected = Combobox.chainUpdates(
+      {
+        model: Combobox.init(config, { allItems }),
+        effects: [],
+        events: [],
+      },
+      (model) =>
+        Combobox.update(
+          config,
+          { model, msg: { type: "pressed-input" } },
+          plugins
+        ),
+      (model) =>
+        Combobox.update(
+          config,
+          { model, msg: { type: "pressed-item", item: allItems[2]! } },
+          plugins
+        )
+    );
+    expect(Combobox.toUsageHistory(selected.model)).toEqual({
+      entries: [{ itemId: 2, count: 1, lastUsedAt: 100 }],
+    });
+  });
+
+  it("loads and exports the usage history", () => {
+    const initial = Combobox.init(config, { allItems });
+    const usageHistory: Combobox.UsageHistory = {
+      entries: [{ itemId: 2, count: 4, lastUsedAt: 1 }],
+    };
+    const loaded = Combobox.update(config, {
+      model: initial,
+      msg: { type: "set-usage-history", usageHistory },
+    });
+    const exported = JSON.parse(
+      JSON.stringify(Combobox.toUsageHistory(loaded.model))
+    );
+    expect(exported).toEqual(usageHistory);
+    expect(toLabels(loaded.model)[0]).toBe("banana");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const plugins = [Combobox.Plugins.selectionHistory<Item>({ maxDepth: 2 })];
+
+const dispatch = (model: Combobox.Model<Item>, msg: Combobox.Msg<Item>) => {
+  return Combobox.update(config, { model, msg }, plugins);
+};
+
+const initMultiSelect = (selectedItems: Item[]) => {
+  const initial = Combobox.init(config, {
+    allItems,
+    selectMode: {
+      type: "multi-select",
+      selectedItemListDirection: "left-to-right",
+    },
+  });
+  return Combobox.update(config, {
+    model: initial,
+    msg: { type: "set-selected-items", selectedItems },
+  }).model;
+};
+
+describe("combobox plugin selection history", () => {
+  it("restores items removed with backspace on undo", () => {
+    const initial = initMultiSelect([allItems[0]!, allItems[1]!]);
+    const focused = dispatch(initial, { type: "focused-input" });
+    const backspaced = dispatch(focused.model, {
+      type: "pressed-backspace-key",
+    });
+    const undone = dispatch(backspaced.model, { type: "undo" });
+    expect(backspaced.model.selectedItems.length).toBe(1);
+    expect(undone.model.selectedItems).toEqual([allItems[0], allItems[1]]);
+    expect(undone.events).toContainEqual({ type: "selected-items-changed" });
+  });
+
+  it("redoes an undone selection change", () => {
+    const initial = initMultiSelect([allItems[0]!]);
+    const unselected = dispatch(initial, {
+      type: "pressed-unselect-button",
+      item: allItems[0]!,
+    });
+    const undone = dispatch(unselected.model, { type: "undo" });
+    const redone = dispatch(undone.model, { type: "redo" });
+    expect(Combobox.canRedo(undone.model)).toBe(true);
+    expect(redone.model.selectedItems).toEqual([]);
+    expect(Combobox.canRedo(redone.model)).toBe(false);
+    expect(Combobox.canUndo(redone.model)).toBe(true);
+  });
+
+  it("does not record input value edits", () => {
+    const initial = initMultiSelect([allItems[0]!]);
+    const typed = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) => dispatch(model, { type: "focused-input" }),
+      (model) => dispatch(model, { type: "inputted-value", inputValue: "go" })
+    );
+    expect(Combobox.canUndo(typed.model)).toBe(false);
+    expect(dispatch(typed.model, { type: "undo" }).model).toEqual(typed.model);
+  });
+
+  it("records selection changes when another plugin runs first", () => {
+    const pluginsAfterMultiSelect = [
+      Combobox.Plugins.muliSelect<Item>(),
+      Combobox.Plugins.selectionHistory<Item>(),
+    ];
+    const selected = Combobox.chainUpdates(
+      {
+        model: Combobox.init(config, { allItems }),
+        effects: [],
+        events: [],
+      },
+      (model) =>
+        Combobox.update(
+          config,
+          { model, msg: { type: "pressed-input" } },
+          pluginsAfterMultiSelect
+        ),
+      (model) =>
+        Combobox.update(
+          config,
+          { model, msg: { type: "pressed-item", item: allItems[0]! } },
+          pluginsAfterMultiSelect
+        )
+    );
+    expect(Combobox.canUndo(selected.model)).toBe(true);
+
+    const undone = Combobox.update(
+      config,
+      { model: selected.model, msg: { type: "undo" } },
+      pluginsAfterMultiSelect
+    );
+    expect(undone.model.selectedItems).toEqual([]);
+  });
+
+  it("caps the history depth", () => {
+    const initial = initMultiSelect([]);
+    const select = (selectedItems: Item[]) => (model: Combobox.Model<Item>) =>
+      dispatch(model, { type: "set-selected-items", selectedItems });
+    const selected = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      select([allItems[0]!]),
+      select([allItems[0]!, allItems[1]!]),
+      select([allItems[0]!, allItems[1]!, allItems[2]!])
+    );
+    expect(selected.model.selectionHistory.past).toEqual([
+      [allItems[0]],
+      [allItems[0], allItems[1]],
+    ]);
+  });
+
+  it("clears the redo history on a new selection change", () => {
+    const initial = initMultiSelect([allItems[0]!]);
+    const changed = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) =>
+        dispatch(model, {
+          type: "pressed-unselect-button",
+          item: allItems[0]!,
+        }),
+      (model) => dispatch(model, { type: "undo" }),
+      (model) => dispatch(model, { type: "pressed-input" }),
+      (model) => dispatch(model, { type: "pressed-item", item: allItems[1]! })
+    );
+    expect(Combobox.canRedo(changed.model)).toBe(false);
+  });
+
+  it("maps Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z to undo and redo", () => {
+    const initial = initMultiSelect([allItems[0]!]);
+    const unselected = dispatch(initial, {
+      type: "pressed-unselect-button",
+      item: allItems[0]!,
+    });
+    expect(Combobox.keyToMsg("z", unselected.model, { ctrlKey: true })).toEqual(
+      { type: "undo", shouldPreventDefault: true }
+    );
+    expect(
+      Combobox.keyToMsg("Z", unselected.model, {
+        metaKey: true,
+        shiftKey: true,
+      })
+    ).toEqual({ type: "redo", shouldPreventDefault: false });
+    expect(Combobox.keyToMsg("z", unselected.model)).toEqual({
+      type: "pressed-key",
+      key: "z",
+    });
+  });
+});
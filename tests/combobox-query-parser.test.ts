@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+
+type Item = { id: number; label: string };
+
+const allItems: Item[] = [
+  { id: 0, label: "Red Delicious apple" },
+  { id: 1, label: "Granny Smith apple" },
+  { id: 2, label: "Green apple" },
+  { id: 3, label: "Red pepper" },
+  { id: 4, label: "Apple red" },
+];
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.id,
+  toItemInputValue: (item) => item.label,
+  isQuerySyntaxEnabled: true,
+});
+
+const search = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>,
+  inputValue: string
+) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+const toLabels = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>
+) => Combobox.toFilteredItems(config, model).map((item) => item.label);
+
+describe("combobox query parser", () => {
+  it("parses words, quoted phrases and excluded terms", () => {
+    expect(Combobox.parseQuery(`red  "granny smith" -green -"big one`)).toEqual(
+      {
+        terms: [
+          { type: "word", value: "red", isExcluded: false },
+          { type: "phrase", value: "granny smith", isExcluded: false },
+          { type: "word", value: "green", isExcluded: true },
+          { type: "phrase", value: "big one", isExcluded: true },
+        ],
+      }
+    );
+  });
+
+  it("requires all terms to match in any order", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "apple red");
+    expect(toLabels(config, searched.model)).toEqual([
+      "Red Delicious apple",
+      "Apple red",
+    ]);
+  });
+
+  it("matches quoted phrases exactly", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, `"apple red"`);
+    expect(toLabels(config, searched.model)).toEqual(["Apple red"]);
+  });
+
+  it("excludes items matching terms prefixed with a dash", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "apple -red");
+    expect(toLabels(config, searched.model)).toEqual([
+      "Granny Smith apple",
+      "Green apple",
+    ]);
+  });
+
+  it("returns match ranges for every included term", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "apple red -green");
+    expect(Combobox.toRenderItems(config, searched.model)[0]?.segments).toEqual(
+      [
+        { text: "Red", isMatch: true },
+        { text: " Delicious ", isMatch: false },
+        { text: "apple", isMatch: true },
+      ]
+    );
+  });
+
+  it("exposes the parsed query as a selector", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "apple -red");
+    expect(Combobox.toParsedQuery(config, searched.model).terms).toEqual([
+      { type: "word", value: "apple", isExcluded: false },
+      { type: "word", value: "red", isExcluded: true },
+    ]);
+  });
+
+  it("matches the whole search value when isQuerySyntaxEnabled is not set", () => {
+    const plain = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+    });
+    const initial = Combobox.init(plain, { allItems });
+    const searched = search(plain, initial, "apple red");
+    expect(toLabels(plain, searched.model)).toEqual(["Apple red"]);
+    expect(Combobox.toParsedQuery(plain, searched.model).terms).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+
+type Item = { id: number; label: string; director: string };
+
+const allItems: Item[] = [
+  {
+    id: 0,
+    label: "Star Wars: The Empire Strikes Back",
+    director: "Irvin Kershner",
+  },
+  { id: 1, label: "Wars of the Roses", director: "Danny DeVito" },
+  { id: 2, label: "Toy Story", director: "John Lasseter" },
+  { id: 3, label: "Star Wars", director: "George Lucas" },
+  { id: 4, label: "The Swarm", director: "Irwin Allen" },
+  { id: 5, label: "Cold War", director: "Pawel Pawlikowski" },
+  { id: 6, label: "Stars", director: "Unknown" },
+];
+
+const config: Combobox.Config<Item> = Combobox.initConfig<Item>({
+  toItemId: (item) => item.id,
+  toItemInputValue: (item) => item.label,
+  deterministicFilter: (model) => Combobox.rankedFilter(config, model),
+  toMatchRanges: (model, item) =>
+    Combobox.rankedMatchRanges(config, model, item),
+});
+
+const search = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>,
+  inputValue: string
+) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+const toLabels = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>
+) =>
+  Combobox.toFilteredItems(config, model).map((item) => item.label);
+
+describe("combobox ranked filter", () => {
+  it("orders matches by tier and keeps the original order within a tier", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "star wars");
+    expect(toLabels(config, searched.model)).toEqual([
+      "Star Wars",
+      "Star Wars: The Empire Strikes Back",
+    ]);
+  });
+
+  it("scores exact, prefix, word-start, substring, acronym and fuzzy matches", () => {
+    const initial = Combobox.init(config, { allItems });
+    const tierOf = (inputValue: string, id: number) =>
+      Combobox.toRankTier(
+        config,
+        search(config, initial, inputValue).model,
+        allItems[id]!
+      );
+    expect(tierOf("stars", 6)).toBe("exact");
+    expect(tierOf("star", 3)).toBe("prefix");
+    expect(tierOf("war", 5)).toBe("word-start");
+    expect(tierOf("war", 4)).toBe("substring");
+    expect(tierOf("swtesb", 0)).toBe("acronym");
+    expect(tierOf("tystry", 2)).toBe("fuzzy");
+    expect(tierOf("xyz", 2)).toBe(null);
+  });
+
+  it("returns all items in order when the search value is empty", () => {
+    const initial = Combobox.init(config, { allItems });
+    expect(toLabels(config, initial)).toEqual(allItems.map((x) => x.label));
+  });
+
+  it("matches on multiple keys", () => {
+    const byDirector: Combobox.Config<Item> = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+      deterministicFilter: (model) =>
+        Combobox.rankedFilter(byDirector, model, {
+          keys: [(item) => item.label, (item) => item.director],
+        }),
+    });
+    const initial = Combobox.init(byDirector, { allItems });
+    const searched = search(byDirector, initial, "lucas");
+    expect(toLabels(byDirector, searched.model)).toEqual(["Star Wars"]);
+  });
+
+  it("drops matches worse than the threshold", () => {
+    const strict: Combobox.Config<Item> = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+      deterministicFilter: (model) =>
+        Combobox.rankedFilter(strict, model, { threshold: "word-start" }),
+    });
+    const initial = Combobox.init(strict, { allItems });
+    const searched = search(strict, initial, "war");
+    expect(toLabels(strict, searched.model)).toEqual([
+      "Wars of the Roses",
+      "Star Wars: The Empire Strikes Back",
+      "Star Wars",
+      "Cold War",
+    ]);
+  });
+
+  it("returns match ranges for the matched tier", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "tystry");
+    const renderItem = Combobox.toRenderItems(config, searched.model)[0];
+    expect(renderItem?.segments).toEqual([
+      { text: "T", isMatch: true },
+      { text: "o", isMatch: false },
+      { text: "y", isMatch: true },
+      { text: " ", isMatch: false },
+      { text: "St", isMatch: true },
+      { text: "o", isMatch: false },
+      { text: "ry", isMatch: true },
+    ]);
+  });
+
+  it("returns the same result for the same input", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "s");
+    expect(toLabels(config, searched.model)).toEqual(
+      toLabels(config, searched.model)
+    );
+    expect(Combobox.toFilteredItemsMemoized(config)(searched.model)).toEqual(
+      Combobox.toFilteredItems(config, searched.model)
+    );
+  });
+});
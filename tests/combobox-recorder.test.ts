@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const record = (msgs: Combobox.Msg<Item>[], maxSteps?: number) => {
+  const recorder = Combobox.initRecorder(config, {
+    model: Combobox.init(config, { allItems }),
+    maxSteps,
+  });
+  let model = Combobox.init(config, { allItems });
+  for (const msg of msgs) {
+    model = recorder.update({ model, msg }).model;
+  }
+  return { trace: recorder.toTrace(), model };
+};
+
+const msgs: Combobox.Msg<Item>[] = [
+  { type: "focused-input" },
+  { type: "inputted-value", inputValue: "god" },
+  { type: "pressed-vertical-arrow-key", key: "arrow-down" },
+  { type: "pressed-enter-key" },
+];
+
+describe("combobox recorder", () => {
+  it("records every message with its effects, events and model", () => {
+    const { trace } = record(msgs);
+    expect(trace.steps.map((step) => step.msg)).toEqual(msgs);
+    expect(trace.steps[3]?.events).toContainEqual({
+      type: "selected-items-changed",
+    });
+    expect(trace.steps[3]?.snapshot.selectedItemIds).toEqual(["The Godfather"]);
+    expect(trace.initialModel.version).toBe(Combobox.serializedModelVersion);
+  });
+
+  it("replays a JSON trace to the same model", () => {
+    const { trace, model } = record(msgs);
+    const result = Combobox.replay(config, JSON.parse(JSON.stringify(trace)));
+    expect(result.type).toBe("matched");
+    if (result.type === "matched") {
+      expect(result.model.selectedItems).toEqual(model.selectedItems);
+    }
+  });
+
+  it("reports the first step where the replay diverges", () => {
+    const { trace } = record(msgs);
+    const changed: Combobox.Config<Item> = Combobox.initConfig<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      deterministicFilter: (model) =>
+        Array.from(Combobox.simpleFilter(config, model)).reverse(),
+    });
+    const result = Combobox.replay(changed, trace);
+    expect(result.type).toBe("diverged");
+    if (result.type === "diverged") {
+      // the highlighted item scrolled into view is a different item
+      expect(result.stepIndex).toBe(2);
+      expect(result.msg).toEqual(msgs[2]);
+      expect(result.expected.effects).toContainEqual({
+        type: "scroll-item-into-view",
+        item: allItems[1],
+        index: 0,
+      });
+      expect(result.actual.effects).not.toEqual(result.expected.effects);
+    }
+  });
+
+  it("keeps only the last max steps", () => {
+    const { trace } = record(msgs, 2);
+    expect(trace.steps.map((step) => step.msg)).toEqual(msgs.slice(2));
+    expect(trace.initialModel.inputMode).toEqual({
+      type: "search-mode",
+      inputValue: "god",
+    });
+    expect(
+      Combobox.replay(config, JSON.parse(JSON.stringify(trace))).type
+    ).toBe("matched");
+  });
+
+  it("replays a trace that starts in the middle of a session", () => {
+    const { trace, model } = record(
+      [
+        { type: "focused-input" },
+        { type: "pressed-input" },
+        { type: "inputted-value", inputValue: "ap" },
+        { type: "pressed-vertical-arrow-key", key: "arrow-down" },
+        { type: "pressed-enter-key" },
+      ],
+      2
+    );
+    expect(trace.initialState?.type).toBe("focused-opened");
+    const result = Combobox.replay(config, JSON.parse(JSON.stringify(trace)));
+    expect(result.type).toBe("matched");
+    if (result.type === "matched") {
+      expect(result.model.selectedItems).toEqual(model.selectedItems);
+    }
+  });
+});
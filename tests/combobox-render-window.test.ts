@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+});
+
+describe("combobox render window", () => {
+  it("only builds render items for the visible range", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderWindow = Combobox.toRenderWindow(config, initial, {
+      start: 10,
+      end: 15,
+    });
+    expect(renderWindow.total).toBe(allItems.length);
+    expect(renderWindow.renderItems.map((x) => x.index)).toEqual([
+      10, 11, 12, 13, 14,
+    ]);
+    expect(renderWindow.renderItems.map((x) => x.item)).toEqual(
+      allItems.slice(10, 15)
+    );
+  });
+
+  it("reports aria-setsize and aria-posinset for each item", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderWindow = Combobox.toRenderWindow(config, initial, {
+      start: 20,
+      end: 22,
+    });
+    expect(renderWindow.renderItems[0]?.aria["aria-setsize"]).toBe(
+      allItems.length
+    );
+    expect(renderWindow.renderItems[0]?.aria["aria-posinset"]).toBe(21);
+    expect(renderWindow.renderItems[1]?.aria["aria-posinset"]).toBe(22);
+  });
+
+  it("clamps the range to the filtered items", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderWindow = Combobox.toRenderWindow(config, initial, {
+      start: -5,
+      end: allItems.length + 5,
+    });
+    expect(renderWindow.start).toBe(0);
+    expect(renderWindow.end).toBe(allItems.length);
+    expect(renderWindow.renderItems.length).toBe(allItems.length);
+  });
+
+  it("returns the highlighted index and status of the highlighted item", () => {
+    const initial = Combobox.init(config, { allItems });
+    const hovered = Combobox.update(config, {
+      model: { ...initial, type: "focused-opened" },
+      msg: { type: "hovered-over-item", index: 12 },
+    });
+    const renderWindow = Combobox.toRenderWindow(config, hovered.model, {
+      start: 10,
+      end: 15,
+    });
+    expect(renderWindow.highlightedIndex).toBe(12);
+    expect(renderWindow.renderItems[2]?.status).toBe("highlighted");
+    expect(
+      renderWindow.renderItems.filter((x) => x.status === "highlighted").length
+    ).toBe(1);
+  });
+
+  it("returns -1 as the highlighted index when nothing is highlighted", () => {
+    const initial = Combobox.init(config, { allItems });
+    const renderWindow = Combobox.toRenderWindow(config, initial, {
+      start: 0,
+      end: 5,
+    });
+    expect(renderWindow.highlightedIndex).toBe(-1);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+
+type Item = { id: number; label: string; aliases: string[] };
+
+const allItems: Item[] = [
+  { id: 0, label: "New York City", aliases: ["NYC", "Big Apple"] },
+  { id: 1, label: "Los Angeles", aliases: ["LA"] },
+  { id: 2, label: "San Francisco", aliases: ["SF", "Frisco"] },
+];
+
+const config = Combobox.initConfig<Item>({
+  toItemId: (item) => item.id,
+  toItemInputValue: (item) => item.label,
+  toItemSearchKeywords: (item) => item.aliases,
+});
+
+const search = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>,
+  inputValue: string
+) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+const toLabels = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>
+) => Combobox.toFilteredItems(config, model).map((item) => item.label);
+
+describe("combobox search keywords", () => {
+  it("matches items by their keywords", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "nyc");
+    expect(toLabels(config, searched.model)).toEqual(["New York City"]);
+  });
+
+  it("reports the keyword that matched", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "apple");
+    const renderItem = Combobox.toRenderItems(config, searched.model)[0];
+    expect(renderItem?.item.label).toBe("New York City");
+    expect(renderItem?.matchedKeyword).toBe("Big Apple");
+    expect(renderItem?.segments).toEqual([
+      { text: "New York City", isMatch: false },
+    ]);
+  });
+
+  it("does not report a keyword when the input value matched", () => {
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "san");
+    const renderItems = Combobox.toRenderItems(config, searched.model);
+    expect(renderItems.map((x) => x.item.label)).toEqual(["San Francisco"]);
+    expect(renderItems[0]?.matchedKeyword).toBe(null);
+  });
+
+  it("matches terms across the input value and keywords when parsing queries", () => {
+    const parsing = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+      toItemSearchKeywords: (item) => item.aliases,
+      isQuerySyntaxEnabled: true,
+    });
+    const initial = Combobox.init(parsing, { allItems });
+    expect(
+      toLabels(parsing, search(parsing, initial, "san frisco").model)
+    ).toEqual(["San Francisco"]);
+    expect(toLabels(parsing, search(parsing, initial, "-nyc").model)).toEqual([
+      "Los Angeles",
+      "San Francisco",
+    ]);
+  });
+
+  it("ranks items by their keywords with rankedFilter", () => {
+    const ranked: Combobox.Config<Item> = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+      toItemSearchKeywords: (item) => item.aliases,
+      deterministicFilter: (model) => Combobox.rankedFilter(ranked, model),
+    });
+    const initial = Combobox.init(ranked, { allItems });
+    const searched = search(ranked, initial, "sf");
+    expect(toLabels(ranked, searched.model)).toEqual(["San Francisco"]);
+    expect(Combobox.toRankTier(ranked, searched.model, allItems[2]!)).toBe(
+      "exact"
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const initMultiSelect = ({
+  maxSelected,
+  minSelected,
+  selectedItems,
+}: {
+  maxSelected?: number;
+  minSelected?: number;
+  selectedItems: Item[];
+}) => {
+  const initial = Combobox.init(config, {
+    allItems,
+    selectMode: {
+      type: "multi-select",
+      selectedItemListDirection: "left-to-right",
+      maxSelected,
+      minSelected,
+    },
+  });
+  return Combobox.update(config, {
+    model: initial,
+    msg: { type: "set-selected-items", selectedItems },
+  }).model;
+};
+
+const pressItem = (model: Combobox.Model<Item>, item: Item) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-item", item } })
+  );
+};
+
+describe("combobox selection limits", () => {
+  it("refuses to select more than max selected items", () => {
+    const initial = initMultiSelect({
+      maxSelected: 2,
+      selectedItems: [allItems[0]!, allItems[1]!],
+    });
+    const pressed = pressItem(initial, allItems[2]!);
+    expect(Combobox.toSelectedItems(config, pressed.model)).toEqual(
+      Combobox.toSelectedItems(config, initial)
+    );
+    expect(pressed.model.selectedItems.length).toBe(2);
+    expect(Combobox.isOpened(pressed.model)).toBe(true);
+    expect(pressed.events).toContainEqual({ type: "selection-limit-reached" });
+    expect(pressed.events).not.toContainEqual({
+      type: "selected-items-changed",
+    });
+  });
+
+  it("still unselects items when max selected items is reached", () => {
+    const initial = initMultiSelect({
+      maxSelected: 2,
+      selectedItems: [allItems[0]!, allItems[1]!],
+    });
+    const pressed = pressItem(initial, allItems[1]!);
+    expect(Combobox.toSelectedItems(config, pressed.model)).toEqual([
+      allItems[0],
+    ]);
+    expect(pressed.events).not.toContainEqual({
+      type: "selection-limit-reached",
+    });
+  });
+
+  it("reports the selection limit status on render items", () => {
+    const initial = initMultiSelect({
+      maxSelected: 1,
+      selectedItems: [allItems[0]!],
+    });
+    const renderItems = Combobox.toRenderItems(config, initial);
+    expect(renderItems[0]?.status).toBe("selected");
+    expect(renderItems[1]?.status).toBe("selection-limit-reached");
+    expect(renderItems[1]?.aria["aria-disabled"]).toBe(true);
+  });
+
+  it("does not unselect below min selected items", () => {
+    const initial = initMultiSelect({
+      minSelected: 1,
+      selectedItems: [allItems[0]!],
+    });
+    const unselected = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-unselect-button", item: allItems[0]! },
+    });
+    const unselectedAll = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-unselect-all-button" },
+    });
+    const focused = Combobox.update(config, {
+      model: initial,
+      msg: { type: "focused-input" },
+    });
+    const backspaced = Combobox.update(config, {
+      model: focused.model,
+      msg: { type: "pressed-backspace-key" },
+    });
+    expect(Combobox.toSelectedItems(config, unselected.model)).toEqual([
+      allItems[0],
+    ]);
+    expect(Combobox.toSelectedItems(config, unselectedAll.model)).toEqual([
+      allItems[0],
+    ]);
+    expect(Combobox.toSelectedItems(config, backspaced.model)).toEqual([
+      allItems[0],
+    ]);
+  });
+
+  it("does not unselect below min selected items when typing on a focused selected item", () => {
+    const initial = initMultiSelect({
+      minSelected: 1,
+      selectedItems: [allItems[0]!, allItems[1]!],
+    });
+    const typed = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "focused-input" } }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-horizontal-arrow-key", key: "arrow-right" },
+        }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "inputted-value", inputValue: "a" },
+        })
+    );
+    expect(typed.model.selectedItems).toEqual(initial.selectedItems);
+  });
+
+  it("unselects down to min selected items", () => {
+    const initial = initMultiSelect({
+      minSelected: 1,
+      selectedItems: [allItems[0]!, allItems[1]!],
+    });
+    const unselected = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-unselect-button", item: allItems[0]! },
+    });
+    expect(Combobox.toSelectedItems(config, unselected.model)).toEqual([
+      allItems[1],
+    ]);
+  });
+});
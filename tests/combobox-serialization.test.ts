@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config } from "./shared";
+
+const roundTrip = (serialized: Combobox.SerializedModel) =>
+  JSON.parse(JSON.stringify(serialized));
+
+describe("combobox serialization", () => {
+  it("stores selected item ids and no transient state", () => {
+    const initial = Combobox.init(config, { allItems });
+    const selected = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-item", item: allItems[3]! },
+        })
+    );
+    const serialized = Combobox.serializeModel(config, selected.model);
+    expect(serialized.version).toBe(Combobox.serializedModelVersion);
+    expect(serialized.selectedItemIds).toEqual([allItems[3]!.label]);
+    expect(serialized).not.toHaveProperty("skipOnce");
+    expect(serialized).not.toHaveProperty("allItemsHash");
+    expect(serialized).not.toHaveProperty("type");
+  });
+
+  it("restores into the blurred state with the selected items", () => {
+    const initial = Combobox.init(config, {
+      allItems,
+      selectMode: {
+        type: "multi-select",
+        selectedItemListDirection: "left-to-right",
+      },
+    });
+    const selected = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: {
+            type: "set-selected-items",
+            selectedItems: [allItems[1]!, allItems[5]!],
+          },
+        }),
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "pressed-input" } })
+    );
+    const serialized = roundTrip(
+      Combobox.serializeModel(config, selected.model)
+    );
+    const restored = Combobox.deserializeModel(config, {
+      allItems,
+      serialized,
+    });
+    expect(restored?.type).toBe("blurred");
+    expect(restored?.selectMode).toEqual(selected.model.selectMode);
+    expect(restored?.selectedItems).toEqual([allItems[1], allItems[5]]);
+    expect(Combobox.toSelectedItems(config, restored!)).toEqual(
+      Combobox.toSelectedItems(config, selected.model)
+    );
+  });
+
+  it("drops selected item ids that are not in all items", () => {
+    const initial = Combobox.init(config, { allItems });
+    const selected = Combobox.update(config, {
+      model: initial,
+      msg: { type: "set-selected-items", selectedItems: [allItems[0]!] },
+    });
+    const serialized = roundTrip(
+      Combobox.serializeModel(config, selected.model)
+    );
+    const restored = Combobox.deserializeModel(config, {
+      allItems: allItems.slice(1),
+      serialized,
+    });
+    expect(restored?.selectedItems).toEqual([]);
+  });
+
+  it("keeps an infinite filtered item limit through JSON", () => {
+    const initial = Combobox.init(config, { allItems });
+    const serialized = roundTrip(Combobox.serializeModel(config, initial));
+    expect(serialized.filteredItemLimit).toBe(null);
+    expect(
+      Combobox.deserializeModel(config, { allItems, serialized })
+        ?.filteredItemLimit
+    ).toBe(Infinity);
+  });
+
+  it("migrates older versions with migration hooks", () => {
+    const serialized = {
+      version: 0,
+      selectedIds: [allItems[2]!.label],
+    };
+    const restored = Combobox.deserializeModel(config, {
+      allItems,
+      serialized,
+      migrations: {
+        0: (old) => ({
+          ...Combobox.serializeModel(
+            config,
+            Combobox.init(config, { allItems })
+          ),
+          version: 1,
+          selectedItemIds: old.selectedIds,
+        }),
+      },
+    });
+    expect(Combobox.toSelectedItem(config, restored!)).toEqual(allItems[2]);
+  });
+
+  it("returns null for data it can not restore", () => {
+    const initial = Combobox.init(config, { allItems });
+    const serialized = Combobox.serializeModel(config, initial);
+    const restore = (serialized: unknown) =>
+      Combobox.deserializeModel(config, { allItems, serialized });
+    expect(restore(null)).toBe(null);
+    expect(restore("model")).toBe(null);
+    expect(restore({ ...serialized, version: 0 })).toBe(null);
+    expect(restore({ ...serialized, version: 99 })).toBe(null);
+    expect(restore({ ...serialized, selectedItemIds: "1" })).toBe(null);
+  });
+
+  it("returns null for modes with unknown types or missing fields", () => {
+    const initial = Combobox.init(config, { allItems });
+    const serialized = Combobox.serializeModel(config, initial);
+    const restore = (serialized: unknown) =>
+      Combobox.deserializeModel(config, { allItems, serialized });
+    expect(restore({ ...serialized, selectMode: { type: "any-select" } })).toBe(
+      null
+    );
+    expect(
+      restore({ ...serialized, selectMode: { type: "multi-select" } })
+    ).toBe(null);
+    expect(restore({ ...serialized, inputMode: { type: "search-mode" } })).toBe(
+      null
+    );
+    expect(
+      restore({
+        ...serialized,
+        inputMode: { type: "free-solo", inputValue: "", committedValue: 1 },
+      })
+    ).toBe(null);
+    expect(restore({ ...serialized, highlightMode: {} })).toBe(null);
+    expect(
+      restore({
+        ...serialized,
+        selectMode: {
+          type: "multi-select",
+          selectedItemListDirection: "right-to-left",
+        },
+        inputMode: { type: "free-solo", inputValue: "a", committedValue: "b" },
+        highlightMode: { type: "clamp" },
+      })?.inputMode
+    ).toMatchObject({ type: "free-solo", committedValue: "b" });
+  });
+});
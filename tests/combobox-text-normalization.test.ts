@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+
+type Item = { id: number; label: string };
+
+const allItems: Item[] = [
+  { id: 0, label: "Crème brûlée" },
+  { id: 1, label: "İstanbul" },
+  { id: 2, label: "ＴＯＫＹＯ" },
+  { id: 3, label: "Cream" },
+];
+
+const initConfig = (textNormalization?: Combobox.TextNormalization) =>
+  Combobox.initConfig<Item>({
+    toItemId: (item) => item.id,
+    toItemInputValue: (item) => item.label,
+    textNormalization,
+  });
+
+const search = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>,
+  inputValue: string
+) => {
+  return Combobox.chainUpdates(
+    { model, effects: [], events: [] },
+    (model) =>
+      Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+    (model) =>
+      Combobox.update(config, {
+        model,
+        msg: { type: "inputted-value", inputValue },
+      })
+  );
+};
+
+const toLabels = (
+  config: Combobox.Config<Item>,
+  model: Combobox.Model<Item>
+) => Combobox.toFilteredItems(config, model).map((item) => item.label);
+
+describe("combobox text normalization", () => {
+  it("ignores diacritics by default", () => {
+    const config = initConfig();
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "creme brulee");
+    expect(toLabels(config, searched.model)).toEqual(["Crème brûlée"]);
+  });
+
+  it("maps match segments back to the original text", () => {
+    const config = initConfig();
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "brulee");
+    expect(Combobox.toRenderItems(config, searched.model)[0]?.segments).toEqual(
+      [
+        { text: "Crème ", isMatch: false },
+        { text: "brûlée", isMatch: true },
+      ]
+    );
+  });
+
+  it("keeps diacritics when stripping is turned off", () => {
+    const config = initConfig({ stripDiacritics: false });
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "creme");
+    expect(toLabels(config, searched.model)).toEqual([]);
+  });
+
+  it("case folds with the configured locale", () => {
+    const config = initConfig({ locale: "tr" });
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "istanbul");
+    expect(toLabels(config, searched.model)).toEqual(["İstanbul"]);
+    expect(Combobox.normalizeText(config, "I")).toBe("ı");
+  });
+
+  it("folds full-width characters when width folding is on", () => {
+    const folded = initConfig({ foldWidth: true });
+    const unfolded = initConfig();
+    const initialFolded = Combobox.init(folded, { allItems });
+    const initialUnfolded = Combobox.init(unfolded, { allItems });
+    expect(
+      toLabels(folded, search(folded, initialFolded, "tokyo").model)
+    ).toEqual(["ＴＯＫＹＯ"]);
+    expect(
+      toLabels(unfolded, search(unfolded, initialUnfolded, "tokyo").model)
+    ).toEqual([]);
+  });
+
+  it("completes inline with the rest of the original input value", () => {
+    const config = Combobox.initConfig<Item>({
+      toItemId: (item) => item.id,
+      toItemInputValue: (item) => item.label,
+      autocomplete: "both",
+    });
+    const initial = Combobox.init(config, { allItems });
+    const searched = search(config, initial, "creme");
+    expect(Combobox.toInlineCompletion(searched.model)).toBe(" brûlée");
+  });
+
+  it("uses the normalization for type-ahead", () => {
+    const config = initConfig();
+    const initial = Combobox.init(config, {
+      allItems,
+      inputMode: { type: "select-only" },
+    });
+    const typed = Combobox.chainUpdates(
+      { model: initial, effects: [], events: [] },
+      (model) =>
+        Combobox.update(config, { model, msg: { type: "pressed-input" } }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-key", key: "c" },
+        }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-key", key: "r" },
+        }),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-key", key: "è" },
+        })
+    );
+    expect(Combobox.toHighlightedItem(config, typed.model)?.label).toBe(
+      "Crème brûlée"
+    );
+  });
+
+  it("computes the normalized input values once per all items", () => {
+    const config = initConfig();
+    let calls = 0;
+    const counted: Combobox.Config<Item> = {
+      ...config,
+      toItemInputValue: (item) => {
+        calls++;
+        return item.label;
+      },
+    };
+    const initial = Combobox.init(counted, { allItems });
+    search(counted, initial, "c");
+    const callsAfterFirstSearch = calls;
+    search(counted, initial, "cr");
+    search(counted, initial, "cre");
+    expect(calls).toBe(callsAfterFirstSearch);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, config, Item } from "./shared";
+
+const initSelectOnly = () => {
+  const initial = Combobox.init(config, {
+    allItems,
+    inputMode: { type: "select-only" },
+  });
+  return Combobox.update(config, {
+    model: initial,
+    msg: { type: "pressed-input" },
+  }).model;
+};
+
+const pressKey = (model: Combobox.Model<Item>, key: string) => {
+  return Combobox.update(config, {
+    model,
+    msg: { type: "pressed-key", key },
+  });
+};
+
+describe("combobox type-ahead", () => {
+  it("highlights the first item that starts with the typed characters", () => {
+    const typed = Combobox.chainUpdates(
+      { model: initSelectOnly(), effects: [], events: [] },
+      (model) => pressKey(model, "g"),
+      (model) => pressKey(model, "o")
+    );
+    expect(Combobox.toHighlightedItem(config, typed.model)?.label).toBe(
+      "Goodfellas"
+    );
+    expect(typed.effects).toContainEqual({
+      type: "scroll-item-into-view",
+      item: allItems[16],
+      index: 16,
+    });
+  });
+
+  it("cycles through items when the same character is typed repeatedly", () => {
+    const typed = Combobox.chainUpdates(
+      { model: initSelectOnly(), effects: [], events: [] },
+      (model) => pressKey(model, "t"),
+      (model) => pressKey(model, "t")
+    );
+    expect(Combobox.toHighlightedItem(config, typed.model)?.label).toBe(
+      "The Godfather"
+    );
+  });
+
+  it("schedules a timeout that resets the typed characters", () => {
+    const typed = pressKey(initSelectOnly(), "g");
+    const scheduled = typed.effects.find(
+      (effect) => effect.type === "schedule-typeahead-timeout"
+    );
+    expect(scheduled).toEqual({
+      type: "schedule-typeahead-timeout",
+      id: 1,
+      timeout: config.typeaheadTimeout,
+    });
+    const elapsed = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "typeahead-timeout-elapsed", id: 1 },
+    });
+    const typedAgain = pressKey(elapsed.model, "f");
+    expect(elapsed.model.inputMode).toEqual({
+      type: "select-only",
+      typeahead: { value: "", id: 1 },
+    });
+    expect(Combobox.toHighlightedItem(config, typedAgain.model)?.label).toBe(
+      "Full Metal Jacket"
+    );
+  });
+
+  it("ignores stale timeouts", () => {
+    const typed = Combobox.chainUpdates(
+      { model: initSelectOnly(), effects: [], events: [] },
+      (model) => pressKey(model, "g"),
+      (model) => pressKey(model, "o")
+    );
+    const elapsed = Combobox.update(config, {
+      model: typed.model,
+      msg: { type: "typeahead-timeout-elapsed", id: 1 },
+    });
+    expect(elapsed.model).toEqual(typed.model);
+  });
+
+  it("does nothing in search mode", () => {
+    const initial = Combobox.init(config, { allItems });
+    const pressed = Combobox.update(config, {
+      model: initial,
+      msg: { type: "pressed-input" },
+    });
+    const typed = pressKey(pressed.model, "g");
+    expect(typed.model).toEqual(pressed.model);
+    expect(typed.effects).toEqual([]);
+  });
+});
@@ -411,6 +411,28 @@ describe("combobox", () => {
     expect(Combobox.toSelectedItem(config, output.model)).toEqual(null);
   });
 
+  it("leaves the focused selected item after pressing clear button when single select mode", () => {
+    const output = Combobox.chainUpdates(
+      init(),
+      (model) => pressInput(model),
+      (model) => pressItem(model, Combobox.toFilteredItems(config, model)[0]),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: {
+            type: "focused-selected-item",
+            item: model.selectedItems[0]!,
+          },
+        }),
+      (model) => pressClearButton(model)
+    );
+    expect(output.model.type).not.toBe("highlighted-selected");
+    expect(Combobox.toSelectedItem(config, output.model)).toEqual(null);
+    expect(
+      Combobox.toModelInvariantViolations(config, output.model)
+    ).toEqual([]);
+  });
+
   it("should NOT clear selected values after pressing clear button when multi select mode", () => {
     const output = Combobox.chainUpdates(
       init({
@@ -424,6 +446,52 @@ describe("combobox", () => {
     expect(Combobox.toSelectedItems(config, output.model)).toHaveLength(3);
   });
 
+  it("keeps the highlight in the filtered items when setting all items", () => {
+    const output = Combobox.chainUpdates(
+      init(),
+      (model) => pressInput(model),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: { type: "pressed-jump-key", key: "end" },
+        }),
+      (model) => setAllItems(model, allItems.slice(0, 9))
+    );
+    expect(Combobox.toHighlightedItem(config, output.model)).toEqual(
+      allItems[8]
+    );
+    expect(
+      Combobox.toModelInvariantViolations(config, output.model)
+    ).toEqual([]);
+  });
+
+  it("keeps the focused selected item in the selected items when setting selected items", () => {
+    const output = Combobox.chainUpdates(
+      init({
+        type: "multi-select",
+        selectedItemListDirection: "left-to-right",
+      }),
+      (model) => selectFirstThreeVisibleItems(model),
+      (model) =>
+        Combobox.update(config, {
+          model,
+          msg: {
+            type: "focused-selected-item",
+            item: Combobox.toSelectedItems(config, model)[2]!,
+          },
+        }),
+      (model) =>
+        setSelectedItems(
+          model,
+          Combobox.toSelectedItems(config, model).slice(0, 1)
+        )
+    );
+    expect(output.model.type).toBe("highlighted-selected");
+    expect(
+      Combobox.toModelInvariantViolations(config, output.model)
+    ).toEqual([]);
+  });
+
   it("should NOT clear input value when setting all items", () => {
     const initial = Combobox.init(config, {
       allItems,
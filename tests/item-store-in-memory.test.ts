@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import { allItems, Item } from "./shared";
+
+const initStore = async () => {
+  const store = Combobox.initItemStore<Item>({
+    toItemId: (item) => item.label,
+    toItemInputValue: (item) => item.label,
+  });
+  await store.insert({ items: allItems });
+  return store;
+};
+
+describe("item store in memory", () => {
+  it("gets items and their index by id", async () => {
+    const store = await initStore();
+    expect(await store.getById({ id: "The Godfather" })).toEqual(allItems[1]);
+    expect(await store.getIndex({ id: "The Godfather" })).toBe(1);
+    expect(await store.getById({ id: "missing" })).toBe(undefined);
+    expect(await store.getIndex({ id: "missing" })).toBe(undefined);
+  });
+
+  it("replaces items with the same id and keeps their position", async () => {
+    const store = await initStore();
+    const replacement = { label: "The Godfather", year: 2000 };
+    await store.insert({ items: [replacement] });
+    expect(await store.getById({ id: "The Godfather" })).toEqual(replacement);
+    expect(await store.getIndex({ id: "The Godfather" })).toBe(1);
+    const all = await store.search({ searchQuery: "", page: 0, pageSize: 1000 });
+    expect(all.total).toBe(allItems.length);
+  });
+
+  it("searches case insensitively in insertion order", async () => {
+    const store = await initStore();
+    const result = await store.search({
+      searchQuery: "THE LORD",
+      page: 0,
+      pageSize: 10,
+    });
+    expect(result.items.map((item) => item.label)).toEqual([
+      "The Lord of the Rings: The Return of the King",
+      "The Lord of the Rings: The Fellowship of the Ring",
+      "The Lord of the Rings: The Two Towers",
+    ]);
+    expect(result.total).toBe(3);
+  });
+
+  it("normalizes text like the built-in filters", async () => {
+    const store = Combobox.initItemStore<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      textNormalization: { foldWidth: true },
+    });
+    await store.insert({
+      items: [
+        { label: "Amélie", year: 2001 },
+        { label: "ＦＵＬＬ Metal Jacket", year: 1987 },
+      ],
+    });
+    const accented = await store.search({
+      searchQuery: "amelie",
+      page: 0,
+      pageSize: 10,
+    });
+    const fullWidth = await store.search({
+      searchQuery: "full metal",
+      page: 0,
+      pageSize: 10,
+    });
+    expect(accented.items.map((item) => item.label)).toEqual(["Amélie"]);
+    expect(fullWidth.items.map((item) => item.label)).toEqual([
+      "ＦＵＬＬ Metal Jacket",
+    ]);
+  });
+
+  it("paginates search results", async () => {
+    const store = await initStore();
+    const first = await store.search({ searchQuery: "the", page: 0, pageSize: 5 });
+    const second = await store.search({ searchQuery: "the", page: 1, pageSize: 5 });
+    const expected = allItems.filter((item) =>
+      item.label.toLowerCase().includes("the")
+    );
+    expect(first.items).toEqual(expected.slice(0, 5));
+    expect(second.items).toEqual(expected.slice(5, 10));
+    expect(second.total).toBe(expected.length);
+    expect(second.pageIndex).toBe(1);
+    expect(second.pageSize).toBe(5);
+  });
+});
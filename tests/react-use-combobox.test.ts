@@ -0,0 +1,292 @@
+import { createElement } from "react";
+import TestRenderer, { act } from "react-test-renderer";
+import { describe, expect, it, vi } from "vitest";
+import * as Combobox from "../src";
+import { useCombobox, type UseComboboxOptions } from "../src/react";
+import { allItems, config as sharedConfig, Item } from "./shared";
+
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+const inputElement = {
+  focus: vi.fn(),
+  blur: vi.fn(),
+  setSelectionRange: vi.fn(),
+};
+const itemElement = { scrollIntoView: vi.fn() };
+
+const render = (
+  options: UseComboboxOptions<Item>,
+  plugins: Combobox.Plugin<Item>[] = [],
+  config: Combobox.Config<Item> = sharedConfig
+) => {
+  const result: { current: ReturnType<typeof useCombobox<Item>> | null } = {
+    current: null,
+  };
+  const renders: ReturnType<typeof useCombobox<Item>>[] = [];
+
+  const Test = (props: { options: UseComboboxOptions<Item> }) => {
+    const combobox = useCombobox(config, props.options, plugins);
+    result.current = combobox;
+    renders.push(combobox);
+    return createElement(
+      "div",
+      null,
+      createElement("input", combobox.getInputProps()),
+      createElement(
+        "ul",
+        combobox.getListboxProps(),
+        combobox.state.renderItems.slice(0, 5).map((renderItem) =>
+          createElement(
+            "li",
+            {
+              key: renderItem.inputValue,
+              ...combobox.getItemProps(renderItem.item, renderItem.index),
+            },
+            renderItem.inputValue
+          )
+        )
+      )
+    );
+  };
+
+  let renderer: TestRenderer.ReactTestRenderer | null = null;
+  act(() => {
+    renderer = TestRenderer.create(createElement(Test, { options }), {
+      createNodeMock: (element) =>
+        element.type === "input" ? inputElement : itemElement,
+    });
+  });
+
+  const hook = () => {
+    if (!result.current) throw new Error("not rendered");
+    return result.current;
+  };
+
+  return {
+    hook,
+    renders,
+    rerender: (options: UseComboboxOptions<Item>) => {
+      act(() => {
+        renderer?.update(createElement(Test, { options }));
+      });
+    },
+    unmount: () => {
+      act(() => {
+        renderer?.unmount();
+      });
+    },
+    keyDown: (key: string) => {
+      const preventDefault = vi.fn();
+      act(() => {
+        hook()
+          .getInputProps()
+          .onKeyDown?.({ key, preventDefault } as never);
+      });
+      return preventDefault;
+    },
+  };
+};
+
+describe("react useCombobox", () => {
+  it("wires the input events to messages", () => {
+    const onInputValueChange = vi.fn();
+    const onSelectedItemsChange = vi.fn();
+    const { hook, keyDown } = render({
+      allItems,
+      onInputValueChange,
+      onSelectedItemsChange,
+    });
+
+    act(() => {
+      hook()
+        .getInputProps()
+        .onFocus?.({} as never);
+      hook()
+        .getInputProps()
+        .onChange?.({ currentTarget: { value: "the god" } } as never);
+    });
+
+    expect(hook().state.isOpened).toBe(true);
+    expect(hook().getInputProps().value).toBe("the god");
+    expect(onInputValueChange).toHaveBeenLastCalledWith("the god");
+
+    expect(keyDown("ArrowDown")).toHaveBeenCalled();
+    expect(hook().state.highlightedItem?.label).toBe("The Godfather");
+    expect(itemElement.scrollIntoView).toHaveBeenCalled();
+
+    keyDown("Enter");
+
+    expect(hook().state.selectedItem?.label).toBe("The Godfather");
+    expect(onSelectedItemsChange).toHaveBeenCalledWith([
+      expect.objectContaining({ label: "The Godfather" }),
+    ]);
+  });
+
+  it("merges the aria attributes with react prop names", () => {
+    const { hook } = render({ allItems });
+    const inputProps = hook().getInputProps();
+    const itemProps = hook().getItemProps(allItems[0]!, 0);
+
+    expect(inputProps.role).toBe("combobox");
+    expect(inputProps.tabIndex).toBe(0);
+    expect(inputProps.autoComplete).toBe("off");
+    expect(inputProps).not.toHaveProperty("tabindex");
+    expect(inputProps).not.toHaveProperty("combobox");
+    expect(hook().getListboxProps().role).toBe("listbox");
+    expect(itemProps.role).toBe("option");
+    expect(itemProps["aria-selected"]).toBe(false);
+  });
+
+  it("presses and hovers items", () => {
+    const { hook } = render({ allItems });
+
+    act(() => {
+      hook()
+        .getInputProps()
+        .onFocus?.({} as never);
+      hook()
+        .getInputProps()
+        .onMouseDown?.({} as never);
+    });
+    act(() => {
+      hook()
+        .getItemProps(allItems[2]!, 2)
+        .onMouseMove?.({} as never);
+    });
+
+    expect(hook().state.highlightedItem).toBe(allItems[2]);
+
+    const preventDefault = vi.fn();
+    act(() => {
+      hook()
+        .getItemProps(allItems[2]!, 2)
+        .onMouseDown?.({ preventDefault } as never);
+    });
+
+    expect(preventDefault).toHaveBeenCalled();
+    expect(hook().state.selectedItems).toEqual([allItems[2]]);
+  });
+
+  it("runs focus effects on the input ref", () => {
+    inputElement.focus.mockClear();
+    const { hook } = render({
+      allItems,
+      selectMode: {
+        type: "multi-select",
+        selectedItemListDirection: "left-to-right",
+      },
+    });
+
+    act(() => {
+      hook().dispatch({ type: "pressed-unselect-all-button" });
+    });
+
+    expect(inputElement.focus).toHaveBeenCalled();
+  });
+
+  it("syncs controlled selected items", () => {
+    const onSelectedItemsChange = vi.fn();
+    const { hook, rerender } = render({
+      allItems,
+      selectedItems: [allItems[0]!],
+      onSelectedItemsChange,
+    });
+
+    expect(hook().state.selectedItems).toEqual([allItems[0]]);
+
+    rerender({
+      allItems,
+      selectedItems: [allItems[1]!],
+      onSelectedItemsChange,
+    });
+
+    expect(hook().state.selectedItems).toEqual([allItems[1]]);
+
+    // the parent does not accept the change so the model goes back to the prop
+    act(() => {
+      hook().dispatch({ type: "focused-input" });
+      hook().dispatch({ type: "pressed-input" });
+      hook().dispatch({ type: "pressed-item", item: allItems[3]! });
+    });
+
+    expect(onSelectedItemsChange).toHaveBeenCalledWith([allItems[3]]);
+    expect(hook().state.selectedItems).toEqual([allItems[1]]);
+  });
+
+  it("renders controlled selected items without an extra update", () => {
+    const onSelectedItemsChange = vi.fn();
+    const { renders, rerender } = render({
+      allItems,
+      selectedItems: [allItems[0]!],
+      onSelectedItemsChange,
+    });
+
+    expect(renders.map((x) => x.state.selectedItems)).toEqual([[allItems[0]]]);
+
+    rerender({
+      allItems,
+      selectedItems: [allItems[1]!],
+      onSelectedItemsChange,
+    });
+
+    expect(renders.map((x) => x.state.selectedItems)).toEqual([
+      [allItems[0]],
+      [allItems[1]],
+    ]);
+    expect(onSelectedItemsChange).not.toHaveBeenCalled();
+  });
+
+  it("syncs all items", () => {
+    const { hook, rerender } = render({ allItems });
+
+    rerender({ allItems: allItems.slice(0, 3) });
+
+    expect(hook().model.allItems).toEqual(allItems.slice(0, 3));
+  });
+
+  it("runs the item store effects and dispatches the results", async () => {
+    const itemStore = Combobox.initItemStore<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+    });
+    await itemStore.insert({ items: allItems });
+    const config = Combobox.initConfig<Item>({
+      toItemId: (item) => item.label,
+      toItemInputValue: (item) => item.label,
+      itemStore,
+      itemStorePageSize: 5,
+    });
+    const noItems: Item[] = [];
+
+    const opened = render({ allItems: noItems }, [], config);
+
+    await act(async () => {
+      opened.hook().dispatch({ type: "pressed-input" });
+    });
+
+    expect(Combobox.isLoadingItems(opened.hook().model)).toBe(false);
+    expect(opened.hook().model.allItems).toEqual(allItems.slice(0, 5));
+
+    const msgTypes: string[] = [];
+    const unmounted = render(
+      { allItems: noItems },
+      [
+        ({ input, output }) => {
+          msgTypes.push(input.msg.type);
+          return output;
+        },
+      ],
+      config
+    );
+
+    act(() => {
+      unmounted.hook().dispatch({ type: "pressed-input" });
+    });
+    unmounted.unmount();
+    await act(async () => {});
+
+    expect(msgTypes).toEqual(["pressed-input"]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import * as Testing from "../src/testing";
+import { allItems, config, Item } from "./shared";
+
+const initDriver = (
+  options: Partial<Parameters<typeof Combobox.init<Item>>[1]> = {},
+  plugins: Combobox.Plugin<Item>[] = []
+) => {
+  return Testing.initDriver(config, {
+    model: Combobox.init(config, { allItems, ...options }),
+    plugins,
+  });
+};
+
+describe("testing driver", () => {
+  it("selects an item by typing and pressing keys", () => {
+    initDriver()
+      .focus()
+      .type("the god")
+      .expectOpened()
+      .expectInputValue("the god")
+      .arrowDown()
+      .expectHighlighted("The Godfather")
+      .enter()
+      .expectSelected(["The Godfather"])
+      .expectClosed()
+      .expectEvent("selected-items-changed")
+      .expectEvent("input-value-changed");
+  });
+
+  it("types key presses in select only mode", () => {
+    initDriver({ inputMode: { type: "select-only" } })
+      .focus()
+      .pressInput()
+      .type("pulp")
+      .expectHighlighted("Pulp Fiction")
+      .enter()
+      .expectSelected(["Pulp Fiction"]);
+  });
+
+  it("types over the inline completion", () => {
+    const driver = Testing.initDriver(
+      { ...config, autocomplete: "both" },
+      { model: Combobox.init(config, { allItems }) }
+    )
+      .focus()
+      .type("the g")
+      .expectInputValue("the godfather");
+
+    expect(Combobox.toSearchValue(driver.toModel())).toBe("the g");
+
+    driver
+      .type("o")
+      .expectInputValue("the godfather")
+      .expectHighlighted("The Godfather")
+      .enter()
+      .expectSelected(["The Godfather"]);
+  });
+
+  it("collects effects and events until reset", () => {
+    const driver = initDriver().focus().type("fight").arrowDown();
+
+    expect(driver.toEffects().map((effect) => effect.type)).toContain(
+      "scroll-item-into-view"
+    );
+    expect(driver.toEvents().map((event) => event.type)).toContain(
+      "input-value-changed"
+    );
+
+    driver.resetEffectsAndEvents();
+
+    expect(driver.toEffects()).toEqual([]);
+    expect(driver.toEvents()).toEqual([]);
+    expect(() => driver.expectEvent("input-value-changed")).toThrow(
+      Testing.DriverAssertionError
+    );
+  });
+
+  it("presses items and unselect buttons by id", () => {
+    initDriver({
+      selectMode: {
+        type: "multi-select",
+        selectedItemListDirection: "left-to-right",
+      },
+    })
+      .focus()
+      .pressInput()
+      .pressItem("Inception")
+      .pressInput()
+      .pressItem("Goodfellas")
+      .expectSelected(["Inception", "Goodfellas"])
+      .pressUnselectButton("Inception")
+      .expectSelected(["Goodfellas"])
+      .pressUnselectAllButton()
+      .expectSelected([])
+      .expectEffect("focus-input");
+  });
+
+  it("sends keys with keyToMsg", () => {
+    initDriver({}, [Combobox.Plugins.selectionHistory({})])
+      .focus()
+      .pressInput()
+      .pressItem("Inception")
+      .expectSelected(["Inception"])
+      .key("z", { ctrlKey: true })
+      .expectSelected([])
+      .key("z", { ctrlKey: true, shiftKey: true })
+      .expectSelected(["Inception"]);
+  });
+
+  it("throws a readable error when an expectation fails", () => {
+    expect(() => initDriver().focus().expectSelected(["Inception"])).toThrow(
+      /Expected the selected items\n {2}expected: \["Inception"\]\n {2}actual: \[\]/
+    );
+    expect(() => initDriver().pressItem("Not a film")).toThrow(
+      'No item with the id "Not a film"'
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import * as Combobox from "../src";
+import * as Testing from "../src/testing";
+import { allItems, config, Item } from "./shared";
+
+const items = allItems.slice(0, 20);
+
+const itemStore = Combobox.initItemStore<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+});
+
+await itemStore.insert({ items });
+
+const itemStoreConfig = Combobox.initConfig<Item>({
+  toItemId: (item) => item.label,
+  toItemInputValue: (item) => item.label,
+  itemStore,
+  itemStorePageSize: 5,
+});
+
+describe("property testing", () => {
+  it("generates the same valid messages for the same seed", () => {
+    const model = Combobox.init(config, { allItems: items });
+    const msgs = Testing.generateMsgs(config, {
+      model,
+      length: 100,
+      seed: 42,
+    });
+
+    expect(
+      Testing.generateMsgs(config, { model, length: 100, seed: 42 })
+    ).toEqual(msgs);
+
+    let current = model;
+    for (const msg of msgs) {
+      expect(Testing.isMsgValid(config, current, msg)).toBe(true);
+      current = Combobox.update(config, { model: current, msg }).model;
+    }
+  });
+
+  it("does not generate typing in select only mode", () => {
+    const model = Combobox.init(config, {
+      allItems: items,
+      inputMode: { type: "select-only" },
+    });
+    const msgs = Testing.generateMsgs(config, {
+      model,
+      length: 200,
+      seed: 1,
+    });
+
+    expect(msgs.some((msg) => msg.type === "inputted-value")).toBe(false);
+  });
+
+  it("keeps the model invariants for every select mode and input mode", () => {
+    const selectModes: Combobox.SelectMode[] = [
+      { type: "single-select" },
+      { type: "multi-select", selectedItemListDirection: "left-to-right" },
+    ];
+    const inputModes: Combobox.InputMode[] = [
+      { type: "search-mode", inputValue: "" },
+      { type: "select-only" },
+      { type: "free-solo", inputValue: "" },
+    ];
+
+    for (const selectMode of selectModes) {
+      for (const inputMode of inputModes) {
+        const result = Testing.checkProperties(config, {
+          allItems: items,
+          selectMode,
+          inputMode,
+          plugins: [Combobox.Plugins.selectionHistory({})],
+          properties: [Testing.modelInvariantsProperty()],
+          runs: 20,
+          length: 30,
+          seed: 1,
+        });
+        expect(result).toEqual({ type: "passed", runs: 20 });
+      }
+    }
+  });
+
+  it("generates item store results for the pending search and sets all items", () => {
+    const model = Combobox.init(itemStoreConfig, { allItems: items });
+    const msgs = Testing.generateMsgs(itemStoreConfig, {
+      model,
+      length: 200,
+      seed: 2,
+    });
+
+    expect(msgs.some((msg) => msg.type === "received-items")).toBe(true);
+    expect(msgs.some((msg) => msg.type === "failed-to-receive-items")).toBe(
+      true
+    );
+    expect(msgs.some((msg) => msg.type === "set-all-items")).toBe(true);
+
+    let current = model;
+    for (const msg of msgs) {
+      expect(Testing.isMsgValid(itemStoreConfig, current, msg)).toBe(true);
+      current = Combobox.update(itemStoreConfig, { model: current, msg }).model;
+    }
+
+    expect(
+      Testing.isMsgValid(itemStoreConfig, current, {
+        type: "received-items",
+        requestId: current.itemStoreState.requestId + 1,
+        items,
+        total: items.length,
+      })
+    ).toBe(false);
+  });
+
+  it("keeps the model invariants with an item store", () => {
+    const result = Testing.checkProperties(itemStoreConfig, {
+      allItems: items,
+      selectMode: {
+        type: "multi-select",
+        selectedItemListDirection: "left-to-right",
+      },
+      properties: [Testing.modelInvariantsProperty()],
+      runs: 20,
+      length: 30,
+      seed: 1,
+    });
+    expect(result).toEqual({ type: "passed", runs: 20 });
+  });
+
+  it("shrinks a failing sequence to a minimal reproduction", () => {
+    const result = Testing.checkProperties<Item>(config, {
+      allItems: items,
+      properties: [
+        {
+          name: "nothing selected",
+          check: ({ output }) => output.model.selectedItems.length === 0,
+        },
+      ],
+      runs: 10,
+      length: 50,
+      seed: 7,
+    });
+
+    expect(result.type).toBe("failed");
+    if (result.type !== "failed") return;
+    expect(result.property).toBe("nothing selected");
+    expect(result.message).toBe("returned false");
+    expect(result.msgs.length).toBeLessThanOrEqual(3);
+    expect(result.msgs.length).toBeLessThan(result.originalMsgs.length);
+    expect(result.model.selectedItems).toEqual([]);
+  });
+
+  it("reports the message of a throwing property and its seed", () => {
+    const options = {
+      allItems: items,
+      properties: [
+        {
+          name: "closed",
+          check: ({ output }: Testing.PropertyStep<Item>) => {
+            expect(Combobox.isOpened(output.model)).toBe(false);
+          },
+        },
+      ],
+      runs: 10,
+      seed: 3,
+    };
+
+    const result = Testing.checkProperties(config, options);
+
+    expect(result.type).toBe("failed");
+    if (result.type !== "failed") return;
+    expect(result.message).toContain("expected true to be false");
+    expect(result.msgs.length).toBe(1);
+
+    const rerun = Testing.checkProperties(config, {
+      ...options,
+      runs: 1,
+      seed: result.seed,
+    });
+    expect(rerun).toEqual(result);
+  });
+});